@@ -0,0 +1,261 @@
+/**
+ * Content-addressed result cache for payroll calculators
+ */
+
+import { createHash } from "node:crypto";
+import { readFileSync, renameSync, writeFileSync } from "node:fs";
+import type { WageCalculationModel } from "payrolla";
+import type { CalculationResponse, PayrollCalculator } from "./index.js";
+
+/**
+ * Cache options
+ */
+export interface CacheOptions {
+  /** Time to live for an entry in milliseconds */
+  ttlMs: number;
+  /** Maximum number of stored entries; the least recently used are evicted */
+  maxEntries: number;
+  /** Optional JSON file to load from and persist to; flush() before exiting */
+  filePath?: string;
+  debug?: boolean;
+}
+
+/**
+ * Cache hit statistics
+ */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  entries: number;
+  hitRate: number;
+}
+
+/**
+ * Stored cache entry
+ */
+interface CacheEntry {
+  expiresAt: number;
+  value: CalculationResponse;
+}
+
+/**
+ * Log statistics every this many lookups in debug mode
+ */
+const STATS_LOG_INTERVAL = 100;
+
+/**
+ * Delay before persisting changes to disk
+ */
+const PERSIST_DELAY_MS = 1000;
+
+/**
+ * Serialize a value with object keys sorted so equal models hash equally
+ */
+function stableStringify(value: unknown): string {
+  if (value === undefined) {
+    return "null";
+  }
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries
+    .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`)
+    .join(",")}}`;
+}
+
+/**
+ * Content address of a calculation model
+ */
+export function hashModel(model: WageCalculationModel): string {
+  return createHash("sha256").update(stableStringify(model)).digest("hex");
+}
+
+/**
+ * Wraps a calculator with an in-memory LRU cache keyed by the model's
+ * content hash. Identical requests already in flight share one call.
+ */
+export class CachingCalculator implements PayrollCalculator {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly pending = new Map<string, Promise<CalculationResponse>>();
+  private hits = 0;
+  private misses = 0;
+  private persistTimer: NodeJS.Timeout | undefined;
+
+  constructor(
+    private readonly inner: PayrollCalculator,
+    private readonly options: CacheOptions
+  ) {
+    // The owner flushes persisted caches on exit
+    if (options.filePath) {
+      this.load(options.filePath);
+    }
+  }
+
+  async calculate(model: WageCalculationModel): Promise<CalculationResponse> {
+    const key = hashModel(model);
+
+    const cached = this.get(key);
+    if (cached) {
+      this.record(true);
+      return cached;
+    }
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      this.record(true);
+      return inFlight;
+    }
+
+    this.record(false);
+    const request = this.inner
+      .calculate(model)
+      .then((value) => {
+        this.set(key, value);
+        return value;
+      })
+      .finally(() => {
+        this.pending.delete(key);
+      });
+    this.pending.set(key, request);
+
+    return request;
+  }
+
+  /**
+   * Current hit statistics
+   */
+  getStats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      entries: this.entries.size,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+    };
+  }
+
+  /**
+   * Write the cache to disk immediately, if persistence is enabled
+   */
+  flush(): void {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = undefined;
+    }
+    if (!this.options.filePath) {
+      return;
+    }
+
+    try {
+      const tmpPath = `${this.options.filePath}.tmp`;
+      writeFileSync(
+        tmpPath,
+        JSON.stringify({ version: 1, entries: [...this.entries] })
+      );
+      renameSync(tmpPath, this.options.filePath);
+    } catch (error) {
+      this.log(
+        `Failed to persist cache: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  private get(key: string): CalculationResponse | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  private set(key: string, value: CalculationResponse): void {
+    this.entries.delete(key);
+    this.entries.set(key, { expiresAt: Date.now() + this.options.ttlMs, value });
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+
+    this.schedulePersist();
+  }
+
+  private record(hit: boolean): void {
+    if (hit) {
+      this.hits++;
+    } else {
+      this.misses++;
+    }
+
+    if ((this.hits + this.misses) % STATS_LOG_INTERVAL === 0) {
+      const stats = this.getStats();
+      this.log(
+        `Cache: ${stats.hits} hits, ${stats.misses} misses ` +
+          `(${(stats.hitRate * 100).toFixed(1)}%), ${stats.entries} entries`
+      );
+    }
+  }
+
+  private load(filePath: string): void {
+    let raw: string;
+    try {
+      raw = readFileSync(filePath, "utf8");
+    } catch {
+      // No cache file yet
+      return;
+    }
+
+    try {
+      const data = JSON.parse(raw) as {
+        version: number;
+        entries: Array<[string, CacheEntry]>;
+      };
+      if (data.version !== 1) {
+        return;
+      }
+
+      const now = Date.now();
+      for (const [key, entry] of data.entries) {
+        if (entry.expiresAt > now) {
+          this.entries.set(key, entry);
+        }
+      }
+      this.log(`Loaded ${this.entries.size} cached results from ${filePath}`);
+    } catch (error) {
+      this.log(
+        `Ignoring unreadable cache file ${filePath}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  private schedulePersist(): void {
+    if (!this.options.filePath || this.persistTimer) {
+      return;
+    }
+    this.persistTimer = setTimeout(() => this.flush(), PERSIST_DELAY_MS);
+    this.persistTimer.unref();
+  }
+
+  private log(message: string): void {
+    if (this.options.debug) {
+      console.error(`[payrolla-mcp] ${message}`);
+    }
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * Payroll calculation engines
+ *
+ * The remote engine is the Payrolla API client. The local engine
+ * implements the same calculate() contract offline.
+ */
+
+import { createHash } from "node:crypto";
+import { extname } from "node:path";
+import { PayrollaClient, type WageCalculationModel } from "payrolla";
+import { LocalPayrollEngine } from "./local.js";
+import { RateLimitedCalculator, type LimiterOptions } from "./limiter.js";
+import { CachingCalculator, type CacheOptions } from "./cache.js";
+import { RetryingCalculator, type RetryOptions } from "./retry.js";
+
+/**
+ * Payroll result fields read from a calculation
+ */
+export interface PayrollResultData {
+  totalGross: number;
+  totalNet: number;
+  totalIncomeTax: number;
+  totalStampTax: number;
+  totalSSIWorkerPrem: number;
+  totalSSIEmployerPrem: number;
+  totalIncomeTaxBase: number;
+  totalMinWageIncomeTaxExemptionBase: number;
+  transferredSSIBase1?: number;
+  transferredSSIBase2?: number;
+  /** Unemployment insurance included in the SSI premiums above */
+  totalSSIWorkerUnempPrem?: number;
+  totalSSIEmployerUnempPrem?: number;
+  /** Minimum wage exemptions already deducted from the taxes above */
+  totalIncomeTaxExemption?: number;
+  totalStampTaxExemption?: number;
+  /** Employer SSI discount already deducted from the employer premium */
+  totalSSIEmployerDiscount?: number;
+  totalSSIBase?: number;
+}
+
+/**
+ * Single period payroll in a calculation response
+ */
+export interface PayrollData {
+  year: number;
+  month: number;
+  totalCost: number;
+  payrollResult: PayrollResultData;
+}
+
+/**
+ * Calculation response shared by all engines
+ */
+export interface CalculationResponse {
+  payrolls?: PayrollData[];
+}
+
+/**
+ * Anything that can calculate a wage model, e.g. PayrollaClient
+ */
+export interface PayrollCalculator {
+  calculate(model: WageCalculationModel): Promise<CalculationResponse>;
+}
+
+/**
+ * Available calculation engines
+ */
+export type EngineType = "remote" | "local";
+
+/**
+ * Read the engine selection from PAYROLLA_ENGINE (default: remote)
+ */
+export function getEngineType(): EngineType {
+  const engine = (process.env.PAYROLLA_ENGINE || "remote").toLowerCase();
+  if (engine !== "remote" && engine !== "local") {
+    throw new Error(`Unknown PAYROLLA_ENGINE "${engine}": expected "remote" or "local"`);
+  }
+  return engine;
+}
+
+/**
+ * Read a non-negative number from the environment
+ */
+function readNumberEnv(name: string, defaultValue: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") {
+    return defaultValue;
+  }
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative number, got "${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * Read remote API limits from PAYROLLA_CONCURRENCY and PAYROLLA_RATE_LIMIT
+ */
+export function getLimiterOptions(): LimiterOptions {
+  return {
+    concurrency: Math.max(1, Math.floor(readNumberEnv("PAYROLLA_CONCURRENCY", 4))),
+    requestsPerSecond: readNumberEnv("PAYROLLA_RATE_LIMIT", 10),
+  };
+}
+
+/**
+ * Read retry settings from PAYROLLA_MAX_RETRIES and PAYROLLA_RETRY_DELAY_MS
+ */
+export function getRetryOptions(): RetryOptions {
+  return {
+    maxRetries: Math.floor(readNumberEnv("PAYROLLA_MAX_RETRIES", 3)),
+    baseDelayMs: readNumberEnv("PAYROLLA_RETRY_DELAY_MS", 500),
+    maxDelayMs: 8000,
+    debug: process.env.PAYROLLA_DEBUG === "true",
+  };
+}
+
+/**
+ * Read result cache settings, or undefined when PAYROLLA_CACHE=false
+ */
+export function getCacheOptions(): CacheOptions | undefined {
+  if (process.env.PAYROLLA_CACHE === "false") {
+    return undefined;
+  }
+
+  return {
+    ttlMs: readNumberEnv("PAYROLLA_CACHE_TTL", 3600) * 1000,
+    maxEntries: Math.floor(readNumberEnv("PAYROLLA_CACHE_MAX_ENTRIES", 10000)),
+    filePath: process.env.PAYROLLA_CACHE_FILE || undefined,
+    debug: process.env.PAYROLLA_DEBUG === "true",
+  };
+}
+
+/**
+ * Remote calculators kept beyond this many API keys are dropped, least
+ * recently used first
+ */
+const MAX_SHARED_CALCULATORS = 100;
+
+/**
+ * Remote calculator of one API key, with its cache when persisted
+ */
+interface SharedCalculator {
+  calculator: PayrollCalculator;
+  persistentCache?: CachingCalculator;
+}
+
+/**
+ * Remote calculators by API key. Every server using a key (e.g. each HTTP
+ * session) shares its cache and rate limit.
+ */
+const sharedCalculators = new Map<string, SharedCalculator>();
+
+/**
+ * Caches written to disk when the process exits
+ */
+const persistentCaches = new Set<CachingCalculator>();
+let exitHookInstalled = false;
+
+/**
+ * Persist a cache on exit, with a single exit listener for all caches
+ */
+function flushOnExit(cache: CachingCalculator): void {
+  persistentCaches.add(cache);
+  if (!exitHookInstalled) {
+    exitHookInstalled = true;
+    process.once("exit", () => {
+      for (const persistent of persistentCaches) {
+        persistent.flush();
+      }
+    });
+  }
+}
+
+/**
+ * Cache file of an API key: the configured file name with a short hash of
+ * the key, so keys never read each other's results
+ */
+function cacheFileFor(filePath: string, apiKey: string): string {
+  const extension = extname(filePath);
+  const digest = createHash("sha256").update(apiKey).digest("hex").slice(0, 12);
+  return `${filePath.slice(0, filePath.length - extension.length)}.${digest}${extension}`;
+}
+
+/**
+ * Create the payroll calculator selected by the environment. Remote
+ * calculators are shared per API key.
+ */
+export function createPayrollCalculator(apiKey?: string): PayrollCalculator {
+  if (getEngineType() === "local") {
+    return new LocalPayrollEngine();
+  }
+
+  if (!apiKey) {
+    throw new Error("PAYROLLA_API_KEY is required for the remote engine");
+  }
+
+  const shared = sharedCalculators.get(apiKey);
+  if (shared) {
+    // Re-insert to mark as most recently used
+    sharedCalculators.delete(apiKey);
+    sharedCalculators.set(apiKey, shared);
+    return shared.calculator;
+  }
+
+  const client = new PayrollaClient({
+    apiKey,
+    timeout: 30000,
+  });
+
+  // Cache hits are answered before they reach the rate limiter, and each
+  // retry waits for its own limiter slot
+  const limited = new RateLimitedCalculator(client, getLimiterOptions());
+  const retrying = new RetryingCalculator(limited, getRetryOptions());
+  const cacheOptions = getCacheOptions();
+
+  let entry: SharedCalculator = { calculator: retrying };
+  if (cacheOptions?.filePath) {
+    const cache = new CachingCalculator(retrying, {
+      ...cacheOptions,
+      filePath: cacheFileFor(cacheOptions.filePath, apiKey),
+    });
+    flushOnExit(cache);
+    entry = { calculator: cache, persistentCache: cache };
+  } else if (cacheOptions) {
+    entry = { calculator: new CachingCalculator(retrying, cacheOptions) };
+  }
+  sharedCalculators.set(apiKey, entry);
+
+  while (sharedCalculators.size > MAX_SHARED_CALCULATORS) {
+    const [oldestKey, oldest] = sharedCalculators.entries().next().value as [
+      string,
+      SharedCalculator,
+    ];
+    sharedCalculators.delete(oldestKey);
+    if (oldest.persistentCache) {
+      oldest.persistentCache.flush();
+      persistentCaches.delete(oldest.persistentCache);
+    }
+  }
+
+  return entry.calculator;
+}
+
+export { LocalPayrollEngine } from "./local.js";
+export { RateLimitedCalculator } from "./limiter.js";
+export { CachingCalculator } from "./cache.js";
+export { RetryingCalculator } from "./retry.js";
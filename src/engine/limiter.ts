@@ -0,0 +1,94 @@
+/**
+ * Concurrency and rate limiting for payroll calculators
+ */
+
+import type { WageCalculationModel } from "payrolla";
+import type { CalculationResponse, PayrollCalculator } from "./index.js";
+
+/**
+ * Limiter options
+ */
+export interface LimiterOptions {
+  /** Maximum number of calculations in flight at once */
+  concurrency: number;
+  /** Maximum number of calculations started per second (0 = unlimited) */
+  requestsPerSecond: number;
+}
+
+/**
+ * Wraps a calculator so callers can fan out freely while the underlying
+ * engine sees at most `concurrency` parallel calls at the configured rate.
+ * Calls are started in the order they were requested.
+ */
+export class RateLimitedCalculator implements PayrollCalculator {
+  private active = 0;
+  private readonly queue: Array<() => void> = [];
+  private nextStartAt = 0;
+
+  constructor(
+    private readonly inner: PayrollCalculator,
+    private readonly options: LimiterOptions
+  ) {
+    if (!Number.isInteger(options.concurrency) || options.concurrency < 1) {
+      throw new Error("Concurrency must be a positive integer");
+    }
+    if (options.requestsPerSecond < 0) {
+      throw new Error("Requests per second must not be negative");
+    }
+  }
+
+  async calculate(model: WageCalculationModel): Promise<CalculationResponse> {
+    await this.acquire();
+    try {
+      await this.throttle();
+      return await this.inner.calculate(model);
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Wait for a free concurrency slot
+   */
+  private acquire(): Promise<void> {
+    if (this.active < this.options.concurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      this.queue.push(() => {
+        this.active++;
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Hand the slot to the next waiting call
+   */
+  private release(): void {
+    this.active--;
+    const next = this.queue.shift();
+    if (next) {
+      next();
+    }
+  }
+
+  /**
+   * Space call start times evenly to respect the rate limit
+   */
+  private async throttle(): Promise<void> {
+    if (this.options.requestsPerSecond === 0) {
+      return;
+    }
+
+    const interval = 1000 / this.options.requestsPerSecond;
+    const now = Date.now();
+    const startAt = Math.max(now, this.nextStartAt);
+    this.nextStartAt = startAt + interval;
+
+    if (startAt > now) {
+      await new Promise((resolve) => setTimeout(resolve, startAt - now));
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  CalculationType,
+  PaymentPeriodType,
+  PeriodLengthType,
+  SSIType,
+  type WageCalculationModel,
+} from "payrolla";
+
+import { LocalPayrollEngine } from "./local.js";
+
+function model(calcDate: string, periodCount: number): WageCalculationModel {
+  return {
+    calcDate,
+    wageAmount: 300000,
+    ssiType: SSIType.S4A,
+    wageCalculationType: CalculationType.Gross,
+    wagePeriodType: PaymentPeriodType.Monthly,
+    periodLengthType: PeriodLengthType.Month,
+    periodCount,
+    calculationParams: { calculateMinWageExemption: true },
+  };
+}
+
+describe("LocalPayrollEngine.calculate", () => {
+  const engine = new LocalPayrollEngine();
+
+  it("starts the income tax bases over in January", async () => {
+    const { payrolls = [] } = await engine.calculate(model("2025-10-01", 6));
+    const [january] = (await engine.calculate(model("2026-01-01", 1))).payrolls ?? [];
+    const carried = payrolls.find((p) => p.year === 2026 && p.month === 1);
+
+    assert.ok(carried && january);
+    assert.equal(carried.payrollResult.totalIncomeTax, january.payrollResult.totalIncomeTax);
+    assert.equal(
+      carried.payrollResult.totalMinWageIncomeTaxExemptionBase,
+      january.payrollResult.totalMinWageIncomeTaxExemptionBase
+    );
+  });
+});
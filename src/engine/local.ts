@@ -0,0 +1,331 @@
+/**
+ * Local Turkish payroll engine
+ *
+ * Implements the PayrollaClient calculate() contract without network access:
+ * progressive income tax on the cumulative base, stamp tax, employee and
+ * employer SSI with lower/upper limits and transferred bases, the minimum
+ * wage income/stamp tax exemption, and net-to-gross iteration.
+ */
+
+import {
+  CalculationType,
+  PaymentPeriodType,
+  SSIType,
+  type PaymentItem,
+  type WageCalculationModel,
+} from "payrolla";
+import type {
+  CalculationResponse,
+  PayrollCalculator,
+  PayrollData,
+} from "./index.js";
+import { ValidationError } from "../errors.js";
+import { resolveParams } from "../tools/registry.js";
+import { incrementalTax } from "../tools/tax.js";
+import { SSI_RATES } from "../types/index.js";
+
+/**
+ * Net-to-gross search tolerance in TL
+ */
+const NET_TOLERANCE = 0.001;
+const MAX_ITERATIONS = 200;
+
+/**
+ * Parameters effective for a single period
+ */
+interface PeriodParams {
+  minWage: number;
+  /** Net minimum wage, the base of the minimum wage income tax exemption */
+  minWageNet?: number;
+  ssiLowerLimit: number;
+  ssiUpperLimit: number;
+  stampTaxRatio: number;
+  incomeTaxLimits: Array<{ limit: number; rate: number }>;
+  calculateMinWageExemption: boolean;
+}
+
+/**
+ * Bases carried into a period
+ */
+interface PeriodState {
+  cumulativeIncomeTaxBase: number;
+  cumulativeMinWageIncomeTaxBase: number;
+  transferredSSIBase1: number;
+  transferredSSIBase2: number;
+}
+
+/**
+ * Full breakdown for a given gross amount
+ */
+interface GrossBreakdown {
+  gross: number;
+  net: number;
+  ssiBase: number;
+  employeeSSI: number;
+  employeeUnemployment: number;
+  employerSSI: number;
+  employerUnemployment: number;
+  incomeTaxBase: number;
+  incomeTax: number;
+  incomeTaxExemption: number;
+  stampTax: number;
+  stampTaxExemption: number;
+  minWageIncomeTaxBase: number;
+  transferredSSIBase1: number;
+  transferredSSIBase2: number;
+}
+
+/**
+ * Calculate every deduction for a monthly gross amount
+ */
+function breakdownForGross(
+  gross: number,
+  params: PeriodParams,
+  state: PeriodState
+): GrossBreakdown {
+  const employeeRate = SSI_RATES.employee + SSI_RATES.employeeUnemployment;
+
+  // SSI base: clamp to limits, then fill unused room with transferred bases
+  // (oldest first); anything above the ceiling is transferred forward
+  let ssiBase = Math.min(Math.max(gross, params.ssiLowerLimit), params.ssiUpperLimit);
+  let room = params.ssiUpperLimit - ssiBase;
+  const useBase2 = Math.min(room, state.transferredSSIBase2);
+  room -= useBase2;
+  const useBase1 = Math.min(room, state.transferredSSIBase1);
+  ssiBase += useBase1 + useBase2;
+
+  const employeeSSI = ssiBase * SSI_RATES.employee;
+  const employeeUnemployment = ssiBase * SSI_RATES.employeeUnemployment;
+  const employerSSI = ssiBase * SSI_RATES.employer;
+  const employerUnemployment = ssiBase * SSI_RATES.employerUnemployment;
+
+  const incomeTaxBase = Math.max(0, gross - employeeSSI - employeeUnemployment);
+  const grossIncomeTax = incrementalTax(
+    state.cumulativeIncomeTaxBase,
+    incomeTaxBase,
+    params.incomeTaxLimits
+  );
+  const grossStampTax = gross * params.stampTaxRatio;
+
+  // Minimum wage exemption: tax that would be due on the minimum wage
+  let minWageIncomeTaxBase = 0;
+  let incomeTaxExemption = 0;
+  let stampTaxExemption = 0;
+  if (params.calculateMinWageExemption) {
+    minWageIncomeTaxBase =
+      params.minWageNet ?? params.minWage * (1 - employeeRate);
+    incomeTaxExemption = Math.min(
+      grossIncomeTax,
+      incrementalTax(
+        state.cumulativeMinWageIncomeTaxBase,
+        minWageIncomeTaxBase,
+        params.incomeTaxLimits
+      )
+    );
+    stampTaxExemption = Math.min(
+      grossStampTax,
+      params.minWage * params.stampTaxRatio
+    );
+  }
+
+  const incomeTax = grossIncomeTax - incomeTaxExemption;
+  const stampTax = grossStampTax - stampTaxExemption;
+
+  return {
+    gross,
+    net: gross - employeeSSI - employeeUnemployment - incomeTax - stampTax,
+    ssiBase,
+    employeeSSI,
+    employeeUnemployment,
+    employerSSI,
+    employerUnemployment,
+    incomeTaxBase,
+    incomeTax,
+    incomeTaxExemption,
+    stampTax,
+    stampTaxExemption,
+    minWageIncomeTaxBase,
+    transferredSSIBase1: Math.max(0, gross - params.ssiUpperLimit),
+    transferredSSIBase2: state.transferredSSIBase1 - useBase1,
+  };
+}
+
+/**
+ * Find the additional gross that raises net by the target amount
+ */
+function grossUp(
+  baseGross: number,
+  targetNetIncrease: number,
+  params: PeriodParams,
+  state: PeriodState
+): number {
+  if (targetNetIncrease <= 0) {
+    return 0;
+  }
+
+  const baseNet = baseGross > 0 ? breakdownForGross(baseGross, params, state).net : 0;
+  const netIncrease = (extra: number) =>
+    breakdownForGross(baseGross + extra, params, state).net - baseNet;
+
+  let low = targetNetIncrease;
+  let high = targetNetIncrease * 2;
+  while (netIncrease(high) < targetNetIncrease) {
+    high *= 2;
+  }
+
+  for (let i = 0; i < MAX_ITERATIONS && high - low > NET_TOLERANCE; i++) {
+    const mid = (low + high) / 2;
+    if (netIncrease(mid) < targetNetIncrease) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return (low + high) / 2;
+}
+
+/**
+ * Resolve registry defaults overlaid with the model's custom parameters
+ */
+function resolvePeriodParams(
+  model: WageCalculationModel,
+  year: number,
+  month: number
+): PeriodParams {
+  const { params } = resolveParams(year, month);
+  const custom = model.calculationParams?.customGlobalParams;
+
+  return {
+    minWage: custom?.minWage ?? params.minWage,
+    // Without an explicit net minimum wage it follows the gross one
+    minWageNet: custom?.minWageNet,
+    ssiLowerLimit: custom?.ssi_LowerLimit ?? params.ssiLowerLimit,
+    ssiUpperLimit: custom?.ssi_UpperLimit ?? params.ssiUpperLimit,
+    stampTaxRatio: custom?.stampTaxRatio ?? params.stampTaxRatio,
+    incomeTaxLimits:
+      custom?.incomeTaxLimits ??
+      params.incomeTaxBrackets.map((b) => ({ limit: b.limit, rate: b.rate })),
+    calculateMinWageExemption:
+      model.calculationParams?.calculateMinWageExemption ?? true,
+  };
+}
+
+/**
+ * Offline implementation of the Payrolla calculate() contract
+ */
+export class LocalPayrollEngine implements PayrollCalculator {
+  async calculate(model: WageCalculationModel): Promise<CalculationResponse> {
+    if (model.ssiType !== undefined && model.ssiType !== SSIType.S4A) {
+      throw new ValidationError("The local engine only supports S4A employees");
+    }
+    if (
+      model.wagePeriodType !== undefined &&
+      model.wagePeriodType !== PaymentPeriodType.Monthly
+    ) {
+      throw new ValidationError("The local engine only supports monthly wages");
+    }
+
+    const [startYear, startMonth] = model.calcDate.split("-").map(Number);
+    const periodCount = model.periodCount ?? 1;
+    const payrolls: PayrollData[] = [];
+
+    let state: PeriodState = {
+      cumulativeIncomeTaxBase: model.cumulativeIncomeTaxBase ?? 0,
+      cumulativeMinWageIncomeTaxBase: model.cumulativeMinWageIncomeTaxBase ?? 0,
+      transferredSSIBase1: model.transferredSSIBase1 ?? 0,
+      transferredSSIBase2: model.transferredSSIBase2 ?? 0,
+    };
+
+    for (let i = 0; i < periodCount; i++) {
+      const calcDate = new Date(startYear, startMonth - 1 + i, 1);
+      const year = calcDate.getFullYear();
+      const month = calcDate.getMonth() + 1;
+      const params = resolvePeriodParams(model, year, month);
+
+      // Income tax bases are cumulative within a calendar year only
+      if (i > 0 && month === 1) {
+        state = {
+          ...state,
+          cumulativeIncomeTaxBase: 0,
+          cumulativeMinWageIncomeTaxBase: 0,
+        };
+      }
+
+      const breakdown = this.calculatePeriod(model, params, state);
+
+      payrolls.push({
+        year,
+        month,
+        totalCost:
+          breakdown.gross + breakdown.employerSSI + breakdown.employerUnemployment,
+        payrollResult: {
+          totalGross: breakdown.gross,
+          totalNet: breakdown.net,
+          totalIncomeTax: breakdown.incomeTax,
+          totalStampTax: breakdown.stampTax,
+          totalSSIWorkerPrem:
+            breakdown.employeeSSI + breakdown.employeeUnemployment,
+          totalSSIEmployerPrem:
+            breakdown.employerSSI + breakdown.employerUnemployment,
+          totalIncomeTaxBase: breakdown.incomeTaxBase,
+          totalMinWageIncomeTaxExemptionBase:
+            state.cumulativeMinWageIncomeTaxBase + breakdown.minWageIncomeTaxBase,
+          transferredSSIBase1: breakdown.transferredSSIBase1,
+          transferredSSIBase2: breakdown.transferredSSIBase2,
+          totalSSIWorkerUnempPrem: breakdown.employeeUnemployment,
+          totalSSIEmployerUnempPrem: breakdown.employerUnemployment,
+          totalIncomeTaxExemption: breakdown.incomeTaxExemption,
+          totalStampTaxExemption: breakdown.stampTaxExemption,
+          totalSSIEmployerDiscount: 0,
+          totalSSIBase: breakdown.ssiBase,
+        },
+      });
+
+      state = {
+        cumulativeIncomeTaxBase:
+          state.cumulativeIncomeTaxBase + breakdown.incomeTaxBase,
+        cumulativeMinWageIncomeTaxBase:
+          state.cumulativeMinWageIncomeTaxBase + breakdown.minWageIncomeTaxBase,
+        transferredSSIBase1: breakdown.transferredSSIBase1,
+        transferredSSIBase2: breakdown.transferredSSIBase2,
+      };
+    }
+
+    return { payrolls };
+  }
+
+  /**
+   * Combine the regular wage and extra payments into one period breakdown
+   */
+  private calculatePeriod(
+    model: WageCalculationModel,
+    params: PeriodParams,
+    state: PeriodState
+  ): GrossBreakdown {
+    const isNet = (calculationType?: CalculationType) =>
+      calculationType === CalculationType.Net;
+
+    // Regular wage first, grossed up when given as net
+    let gross = isNet(model.wageCalculationType)
+      ? grossUp(0, model.wageAmount, params, state)
+      : model.wageAmount;
+
+    // Gross extras are added directly, net extras are grossed up on top
+    const extras = (model.payments ?? []).filter(
+      (p: PaymentItem) => p.paymentAmount !== undefined
+    );
+    for (const payment of extras) {
+      if (!isNet(payment.calculationType)) {
+        gross += payment.paymentAmount ?? 0;
+      }
+    }
+    for (const payment of extras) {
+      if (isNet(payment.calculationType)) {
+        gross += grossUp(gross, payment.paymentAmount ?? 0, params, state);
+      }
+    }
+
+    return breakdownForGross(gross, params, state);
+  }
+}
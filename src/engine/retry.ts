@@ -0,0 +1,66 @@
+/**
+ * Retry with exponential backoff for payroll calculators
+ */
+
+import type { WageCalculationModel } from "payrolla";
+import type { CalculationResponse, PayrollCalculator } from "./index.js";
+import { classifyError } from "../errors.js";
+
+/**
+ * Retry options
+ */
+export interface RetryOptions {
+  /** Number of retries after the first attempt */
+  maxRetries: number;
+  /** Delay before the first retry in milliseconds, doubled on each retry */
+  baseDelayMs: number;
+  /** Upper bound for a single delay in milliseconds */
+  maxDelayMs: number;
+  debug?: boolean;
+}
+
+/**
+ * Wraps a calculator so transient failures (5xx, timeouts, rate limiting,
+ * dropped connections, errors of unknown cause) are retried with
+ * exponential backoff and jitter; validation and auth errors are not.
+ * Failures are rethrown as classified PayrollaErrors.
+ */
+export class RetryingCalculator implements PayrollCalculator {
+  constructor(
+    private readonly inner: PayrollCalculator,
+    private readonly options: RetryOptions
+  ) {}
+
+  async calculate(model: WageCalculationModel): Promise<CalculationResponse> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.inner.calculate(model);
+      } catch (error) {
+        const classified = classifyError(error);
+        if (!classified.retryable || attempt >= this.options.maxRetries) {
+          throw classified;
+        }
+
+        const delay = this.delayFor(attempt);
+        if (this.options.debug) {
+          console.error(
+            `[payrolla-mcp] ${classified.kind} error (${classified.message}), ` +
+              `retry ${attempt + 1}/${this.options.maxRetries} in ${delay}ms`
+          );
+        }
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Exponential backoff with full jitter
+   */
+  private delayFor(attempt: number): number {
+    const ceiling = Math.min(
+      this.options.maxDelayMs,
+      this.options.baseDelayMs * 2 ** attempt
+    );
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import type { WageCalculationModel } from 'payrolla';
+
+import type { CalculationResponse, PayrollCalculator } from './engine/index.js';
+import { RetryingCalculator } from './engine/retry.js';
+import { ValidationError, classifyError } from './errors.js';
+
+describe('classifyError', () => {
+  it('keeps input check failures as validation errors', () => {
+    const error = classifyError(new ValidationError('Target value must be positive'));
+    assert.equal(error.kind, 'validation');
+    assert.equal(error.retryable, false);
+  });
+
+  it('treats unrecognised errors as retryable', () => {
+    for (const thrown of [new Error('socket hang up'), new TypeError('fetch failed'), 'boom']) {
+      const error = classifyError(thrown);
+      assert.equal(error.kind, 'internal');
+      assert.equal(error.retryable, true);
+    }
+  });
+});
+
+describe('RetryingCalculator', () => {
+  const options = { maxRetries: 2, baseDelayMs: 0, maxDelayMs: 0 };
+  const model = { calcDate: '2025-01-01' } as WageCalculationModel;
+
+  /**
+   * Calculator that throws the given errors in turn, then succeeds
+   */
+  function failing(...errors: Error[]): PayrollCalculator & { calls: number } {
+    return {
+      calls: 0,
+      async calculate(): Promise<CalculationResponse> {
+        const error = errors[this.calls++];
+        if (error) {
+          throw error;
+        }
+        return { payrolls: [] };
+      },
+    };
+  }
+
+  it('retries plain errors from the client', async () => {
+    const inner = failing(new Error('socket hang up'));
+    await new RetryingCalculator(inner, options).calculate(model);
+    assert.equal(inner.calls, 2);
+  });
+
+  it('does not retry validation errors', async () => {
+    const inner = failing(new ValidationError('Invalid month 13: expected 1-12'));
+    await assert.rejects(
+      new RetryingCalculator(inner, options).calculate(model),
+      { kind: 'validation' }
+    );
+    assert.equal(inner.calls, 1);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Typed errors for Payrolla calculations
+ */
+
+/**
+ * Error categories surfaced to MCP clients
+ */
+export type PayrollaErrorKind =
+  | 'auth'
+  | 'validation'
+  | 'quota'
+  | 'upstream'
+  | 'timeout'
+  | 'internal';
+
+/**
+ * Scenario, employee and period a failure belongs to
+ */
+export interface PayrollaErrorContext {
+  scenario?: string;
+  employee?: string;
+  year?: number;
+  month?: number;
+}
+
+/**
+ * Structured error details returned in tool results
+ */
+export interface PayrollaErrorDetails extends PayrollaErrorContext {
+  kind: PayrollaErrorKind;
+  message: string;
+  retryable: boolean;
+  status?: number;
+}
+
+/**
+ * Error with a category, retryability and optional employee/period context
+ */
+export class PayrollaError extends Error {
+  readonly kind: PayrollaErrorKind;
+  readonly retryable: boolean;
+  readonly status?: number;
+  readonly context: PayrollaErrorContext;
+
+  constructor(
+    kind: PayrollaErrorKind,
+    message: string,
+    options: {
+      retryable?: boolean;
+      status?: number;
+      context?: PayrollaErrorContext;
+      cause?: unknown;
+    } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'PayrollaError';
+    this.kind = kind;
+    this.retryable = options.retryable ?? false;
+    this.status = options.status;
+    this.context = options.context ?? {};
+  }
+
+  /**
+   * Copy of this error with additional context; existing context wins
+   */
+  withContext(context: PayrollaErrorContext): PayrollaError {
+    return new PayrollaError(this.kind, this.message, {
+      retryable: this.retryable,
+      status: this.status,
+      context: { ...context, ...this.context },
+      cause: this.cause,
+    });
+  }
+
+  toDetails(): PayrollaErrorDetails {
+    return {
+      kind: this.kind,
+      message: this.message,
+      retryable: this.retryable,
+      ...(this.status !== undefined && { status: this.status }),
+      ...this.context,
+    };
+  }
+}
+
+/**
+ * Invalid input caught by the server's own checks; never retried
+ */
+export class ValidationError extends PayrollaError {
+  constructor(message: string, options: { context?: PayrollaErrorContext; cause?: unknown } = {}) {
+    super('validation', message, options);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Network error codes that indicate a transient upstream failure
+ */
+const TRANSIENT_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+  'UND_ERR_SOCKET',
+]);
+
+/**
+ * Read a property of a value when it is an object
+ */
+function getProperty(value: unknown, key: string): unknown {
+  return typeof value === 'object' && value !== null
+    ? (value as Record<string, unknown>)[key]
+    : undefined;
+}
+
+/**
+ * Extract an HTTP status code from common client error shapes
+ */
+function getStatus(error: Record<string, unknown>): number | undefined {
+  const status =
+    error.status ??
+    error.statusCode ??
+    getProperty(error.response, 'status') ??
+    getProperty(error.cause, 'status');
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Map any thrown value to a PayrollaError; errors it does not recognise
+ * may be transient and are retryable
+ */
+export function classifyError(error: unknown): PayrollaError {
+  if (error instanceof PayrollaError) {
+    return error;
+  }
+
+  if (!(error instanceof Error)) {
+    return new PayrollaError('internal', String(error), { retryable: true });
+  }
+
+  const err = error as Error & Record<string, unknown>;
+  const status = getStatus(err);
+  const rawCode = err.code ?? getProperty(err.cause, 'code');
+  const code = typeof rawCode === 'string' ? rawCode : undefined;
+  const message = err.message || 'Unknown error';
+  const options = { status, cause: error };
+
+  if (status === 401 || status === 403) {
+    return new PayrollaError('auth', message, options);
+  }
+  if (status === 429) {
+    return new PayrollaError('quota', message, { ...options, retryable: true });
+  }
+  if (status === 408 || status === 504) {
+    return new PayrollaError('timeout', message, { ...options, retryable: true });
+  }
+  if (status !== undefined && status >= 500) {
+    return new PayrollaError('upstream', message, { ...options, retryable: true });
+  }
+  if (status !== undefined && status >= 400) {
+    return new PayrollaError('validation', message, options);
+  }
+
+  if (
+    err.name === 'AbortError' ||
+    err.name === 'TimeoutError' ||
+    code === 'ETIMEDOUT' ||
+    /timed? ?out/i.test(message)
+  ) {
+    return new PayrollaError('timeout', message, { ...options, retryable: true });
+  }
+  if (code !== undefined && TRANSIENT_CODES.has(code)) {
+    return new PayrollaError('upstream', message, { ...options, retryable: true });
+  }
+
+  // Input checks throw ValidationError, so anything else may be transient
+  return new PayrollaError('internal', message, { ...options, retryable: true });
+}
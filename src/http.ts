@@ -0,0 +1,298 @@
+/**
+ * HTTP transports for Payrolla MCP Server
+ *
+ * Serves Streamable HTTP on /mcp with an SSE fallback on /sse + /messages.
+ * Every session gets its own MCP server, using the API key from the
+ * session's Authorization (Bearer) or X-Payrolla-Api-Key header; sessions
+ * with the same key share its Payrolla client. Idle sessions are closed.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { createServer as createHttpServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+import { createServer } from './server.js';
+import { getEngineType } from './engine/index.js';
+
+/**
+ * HTTP server options
+ */
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  debug?: boolean;
+  /** Close sessions without requests for this long (default: 30 minutes) */
+  sessionIdleTimeoutMs?: number;
+}
+
+/**
+ * Running HTTP server
+ */
+export interface HttpServerHandle {
+  httpServer: Server;
+  close(): Promise<void>;
+}
+
+/**
+ * Open MCP session over either transport
+ */
+interface Session {
+  apiKey?: string;
+  server: McpServer;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  lastActiveAt: number;
+}
+
+/**
+ * Maximum accepted request body size
+ */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Default idle time after which a session is closed
+ */
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * Longest interval between checks for idle sessions
+ */
+const MAX_IDLE_CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Read the Payrolla API key supplied with a request
+ */
+function getApiKey(req: IncomingMessage): string | undefined {
+  const header = req.headers['x-payrolla-api-key'];
+  if (typeof header === 'string' && header) {
+    return header;
+  }
+
+  const auth = req.headers.authorization;
+  if (auth?.startsWith('Bearer ')) {
+    return auth.slice('Bearer '.length).trim() || undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf8');
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Send a JSON response
+ */
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Send a JSON-RPC error response
+ */
+function sendRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, {
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+/**
+ * Start the HTTP server
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<HttpServerHandle> {
+  const {
+    port,
+    host,
+    debug,
+    sessionIdleTimeoutMs = DEFAULT_SESSION_IDLE_TIMEOUT_MS,
+  } = options;
+  const sessions = new Map<string, Session>();
+  let shuttingDown = false;
+
+  const log = (message: string) => {
+    if (debug) {
+      console.error(`[payrolla-mcp] ${message}`);
+    }
+  };
+
+  /**
+   * Create a per-session MCP server, rejecting the request without a key
+   */
+  const createSessionServer = (req: IncomingMessage, res: ServerResponse): McpServer | undefined => {
+    const apiKey = getApiKey(req);
+    if (!apiKey && getEngineType() === 'remote') {
+      sendRpcError(res, 401, 'Missing Payrolla API key: send Authorization: Bearer <key> or X-Payrolla-Api-Key');
+      return undefined;
+    }
+    return createServer(apiKey, { allowLocalFiles: false });
+  };
+
+  const closeSession = async (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    await session.server.close();
+    log(`Session ${sessionId} closed (${sessions.size} open)`);
+  };
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionId = req.headers['mcp-session-id'];
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendRpcError(res, 404, 'Session not found');
+        return;
+      }
+      if (session.apiKey !== getApiKey(req)) {
+        sendRpcError(res, 403, 'API key does not match the session');
+        return;
+      }
+      session.lastActiveAt = Date.now();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendRpcError(res, 400, 'Bad Request: no valid session ID provided');
+      return;
+    }
+
+    const server = createSessionServer(req, res);
+    if (!server) return;
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { apiKey: getApiKey(req), server, transport, lastActiveAt: Date.now() });
+        log(`Streamable HTTP session ${id} opened (${sessions.size} open)`);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        void closeSession(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseConnect = async (req: IncomingMessage, res: ServerResponse) => {
+    const server = createSessionServer(req, res);
+    if (!server) return;
+
+    const transport = new SSEServerTransport('/messages', res);
+    sessions.set(transport.sessionId, {
+      apiKey: getApiKey(req),
+      server,
+      transport,
+      lastActiveAt: Date.now(),
+    });
+    log(`SSE session ${transport.sessionId} opened (${sessions.size} open)`);
+
+    res.on('close', () => {
+      void closeSession(transport.sessionId);
+    });
+
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const sessionId = url.searchParams.get('sessionId') ?? '';
+    const session = sessions.get(sessionId);
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendRpcError(res, 404, 'Session not found');
+      return;
+    }
+    if (session.apiKey !== getApiKey(req)) {
+      sendRpcError(res, 403, 'API key does not match the session');
+      return;
+    }
+    session.lastActiveAt = Date.now();
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+
+    try {
+      if (url.pathname === '/health' && req.method === 'GET') {
+        sendJson(res, 200, { status: 'ok' });
+      } else if (url.pathname === '/ready' && req.method === 'GET') {
+        sendJson(res, shuttingDown ? 503 : 200, {
+          status: shuttingDown ? 'shutting_down' : 'ready',
+          engine: getEngineType(),
+          sessions: sessions.size,
+        });
+      } else if (shuttingDown) {
+        sendRpcError(res, 503, 'Server is shutting down');
+      } else if (url.pathname === '/mcp') {
+        await handleStreamable(req, res);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await handleSseConnect(req, res);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendJson(res, 404, { error: 'Not found' });
+      }
+    } catch (error) {
+      log(`Request failed: ${error instanceof Error ? error.message : error}`);
+      if (!res.headersSent) {
+        sendRpcError(res, 400, error instanceof Error ? error.message : 'Bad request');
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, () => resolve());
+  });
+
+  // Clients that disappear without closing their session would otherwise
+  // keep its server and rosters in memory
+  const idleCheck = setInterval(() => {
+    const idleSince = Date.now() - sessionIdleTimeoutMs;
+    for (const [sessionId, session] of sessions) {
+      if (session.lastActiveAt <= idleSince) {
+        log(`Session ${sessionId} idle, closing`);
+        void closeSession(sessionId);
+      }
+    }
+  }, Math.min(sessionIdleTimeoutMs, MAX_IDLE_CHECK_INTERVAL_MS));
+  idleCheck.unref();
+
+  return {
+    httpServer,
+    close: async () => {
+      // Report not-ready first so load balancers stop routing here
+      shuttingDown = true;
+      clearInterval(idleCheck);
+      await Promise.all([...sessions.keys()].map(closeSession));
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
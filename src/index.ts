@@ -6,38 +6,129 @@
  * Enables LLMs to calculate payroll, simulate budgets, and compare scenarios.
  *
  * Usage:
- *   npx payrolla-mcp
+ *   npx payrolla-mcp                                   # stdio (default)
+ *   npx payrolla-mcp --transport http --port 3000      # Streamable HTTP + SSE
  *
  * Environment:
- *   PAYROLLA_API_KEY - Required API key for Payrolla service
+ *   PAYROLLA_API_KEY - API key for Payrolla service (required for the remote engine
+ *                      over stdio; HTTP sessions send their own key)
+ *   PAYROLLA_ENGINE  - Optional, 'remote' (default) or 'local' for offline calculation
  *   PAYROLLA_DEBUG   - Optional, set to 'true' for debug logging
  */
 
+import { parseArgs } from 'node:util';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { createServer } from './server.js';
+import { getEngineType } from './engine/index.js';
+import { startHttpServer } from './http.js';
+
+/**
+ * Command line options
+ */
+interface CliOptions {
+  transport: 'stdio' | 'http';
+  port: number;
+  host: string;
+  sessionIdleTimeoutMs: number;
+}
+
+/**
+ * Parse command line options
+ */
+function parseCliOptions(): CliOptions {
+  const { values } = parseArgs({
+    options: {
+      transport: { type: 'string', default: 'stdio' },
+      port: { type: 'string', default: process.env.PORT || '3000' },
+      host: { type: 'string', default: process.env.HOST || '127.0.0.1' },
+    },
+  });
+
+  if (values.transport !== 'stdio' && values.transport !== 'http') {
+    throw new Error(`Unknown transport "${values.transport}": expected "stdio" or "http"`);
+  }
+
+  const port = Number(values.port);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port "${values.port}"`);
+  }
+
+  const sessionTimeout = Number(process.env.PAYROLLA_SESSION_TIMEOUT || 1800);
+  if (!Number.isFinite(sessionTimeout) || sessionTimeout <= 0) {
+    throw new Error(`Invalid PAYROLLA_SESSION_TIMEOUT "${process.env.PAYROLLA_SESSION_TIMEOUT}"`);
+  }
+
+  return {
+    transport: values.transport,
+    port,
+    host: values.host,
+    sessionIdleTimeoutMs: sessionTimeout * 1000,
+  };
+}
 
 /**
  * Main entry point
  */
 async function main(): Promise<void> {
-  // Check for API key
-  if (!process.env.PAYROLLA_API_KEY) {
+  // Check command line and engine selection
+  let options: CliOptions;
+  let engine: string;
+  try {
+    options = parseCliOptions();
+    engine = getEngineType();
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  // Debug mode
+  const debug = process.env.PAYROLLA_DEBUG === 'true';
+
+  if (options.transport === 'http') {
+    try {
+      const handle = await startHttpServer({
+        port: options.port,
+        host: options.host,
+        debug,
+        sessionIdleTimeoutMs: options.sessionIdleTimeoutMs,
+      });
+      console.error(`[payrolla-mcp] Listening on http://${options.host}:${options.port} (${engine} engine)`);
+
+      const shutdown = async () => {
+        if (debug) {
+          console.error('[payrolla-mcp] Shutting down...');
+        }
+        await handle.close();
+        process.exit(0);
+      };
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+    } catch (error) {
+      console.error('Fatal error:', error);
+      process.exit(1);
+    }
+    return;
+  }
+
+  // Check for API key (the local engine runs offline)
+  const apiKey = process.env.PAYROLLA_API_KEY;
+  if (engine === 'remote' && !apiKey) {
     console.error('Error: PAYROLLA_API_KEY environment variable is required');
     console.error('');
     console.error('Set it in your MCP client configuration or run:');
     console.error('  export PAYROLLA_API_KEY=pk_live_xxxxx');
+    console.error('');
+    console.error('Or calculate offline with PAYROLLA_ENGINE=local');
     process.exit(1);
   }
 
-  // Debug mode
-  const debug = process.env.PAYROLLA_DEBUG === 'true';
   if (debug) {
-    console.error('[payrolla-mcp] Starting in debug mode...');
+    console.error(`[payrolla-mcp] Starting in debug mode with ${engine} engine...`);
   }
 
   try {
     // Create server
-    const server = createServer();
+    const server = createServer(apiKey);
 
     // Create stdio transport
     const transport = new StdioServerTransport();
@@ -4,12 +4,25 @@
 
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
+import { resolveParams } from '../tools/registry.js';
+
+/**
+ * Describe the current gross minimum wage for prompt text
+ */
+function describeCurrentMinWage(): string {
+  const now = new Date();
+  const { params, source } = resolveParams(now.getFullYear(), now.getMonth() + 1);
+  const amount = params.minWage.toLocaleString('en-US', { minimumFractionDigits: 2 });
+  const note = source === 'extrapolated' ? ', extrapolated' : '';
+  return `current ${now.getFullYear()}: ${amount} TL gross${note}`;
+}
 
 /**
  * Generate prompt template for budget simulation
  */
 function getBudgetSimulationPrompt(employeeCount: string, scenarioType?: string): string {
   const scenarioText = scenarioType || 'any type of';
+  const currentYear = new Date().getFullYear();
   return `You are helping calculate a payroll budget simulation for Turkish employees.
 
 The user has ${employeeCount} employees. They want to simulate a ${scenarioText} scenario.
@@ -23,7 +36,7 @@ The user has ${employeeCount} employees. They want to simulate a ${scenarioText}
 
 2. Ask about the scenario parameters they want to simulate:
    - Salary raise percentage (e.g., 10% for a 10% raise)
-   - New minimum wage if different from current (current 2025: 26,005.50 TL gross)
+   - New minimum wage if different from current (${describeCurrentMinWage()})
    - Tax bracket changes if any
 
 3. Use the **simulate_budget** tool with the collected data to calculate results.
@@ -33,7 +46,7 @@ The user has ${employeeCount} employees. They want to simulate a ${scenarioText}
    - Total yearly cost difference
    - Per-employee breakdown
 
-**Important:** All monetary values should be in Turkish Lira (TL). Use the 2025 default parameters as baseline unless the user specifies otherwise.`;
+**Important:** All monetary values should be in Turkish Lira (TL). Use the ${currentYear} default parameters (see **get_default_params**) as baseline unless the user specifies otherwise.`;
 }
 
 /**
@@ -74,11 +87,12 @@ function getYearPlanningPrompt(planningYear: string): string {
 
 **Your task:**
 
-1. First, use **get_default_params** to show the current ${planningYear} parameters:
-   - Minimum wage (gross and net)
+1. First, use **get_default_params** to show the ${planningYear} parameters:
+   - Minimum wage (gross and net), including any mid-year changes
    - SSI contribution limits
    - Income tax brackets
    - Stamp tax ratio
+   If the result is marked as extrapolated, tell the user the official ${planningYear} values are not yet known.
 
 2. Ask the user about their workforce:
    - Number of employees
@@ -168,7 +182,7 @@ export function registerPrompts(server: McpServer): void {
             role: 'user',
             content: {
               type: 'text',
-              text: getYearPlanningPrompt(args.planning_year || '2025'),
+              text: getYearPlanningPrompt(args.planning_year || String(new Date().getFullYear())),
             },
           },
         ],
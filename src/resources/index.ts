@@ -2,28 +2,41 @@
  * MCP Resources for Payrolla
  */
 
-import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { DEFAULT_PARAMS_2025 } from '../types/index.js';
+import { ResourceTemplate, type McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { getParamsForYear, getRegisteredYears } from '../tools/registry.js';
 
 /**
  * Register MCP resources
  */
 export function registerResources(server: McpServer): void {
-  // Register 2025 defaults resource
+  // Register per-year defaults resource
   server.resource(
-    '2025 Turkish Payroll Defaults',
-    'payrolla://defaults/2025',
+    'Turkish Payroll Defaults',
+    new ResourceTemplate('payrolla://defaults/{year}', {
+      list: async () => ({
+        resources: getRegisteredYears().map((year) => ({
+          uri: `payrolla://defaults/${year}`,
+          name: `${year} Turkish Payroll Defaults`,
+          mimeType: 'application/json',
+        })),
+      }),
+    }),
     {
-      description: 'Default payroll parameters for Turkey in 2025 including minimum wage, SSI limits, and tax brackets',
+      description: 'Default payroll parameters for Turkey by year including minimum wage, SSI limits, tax brackets and mid-year changes',
       mimeType: 'application/json',
     },
-    async () => {
+    async (uri, variables) => {
+      const year = Number(variables.year);
+      if (!Number.isInteger(year)) {
+        throw new Error(`Invalid year in resource URI: ${uri.href}`);
+      }
+
       return {
         contents: [
           {
-            uri: 'payrolla://defaults/2025',
+            uri: uri.href,
             mimeType: 'application/json',
-            text: JSON.stringify(DEFAULT_PARAMS_2025, null, 2),
+            text: JSON.stringify(getParamsForYear(year), null, 2),
           },
         ],
       };
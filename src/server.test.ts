@@ -0,0 +1,69 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+import { createServer } from './server.js';
+
+describe('tool input validation', () => {
+  const client = new Client({ name: 'server-test', version: '1.0.0' });
+
+  before(async () => {
+    process.env.PAYROLLA_ENGINE = 'local';
+    const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+    await createServer(undefined).connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  after(async () => {
+    await client.close();
+  });
+
+  const payroll = { name: 'A', wage: 50000, calculationType: 'Gross', year: 2025, month: 6 };
+
+  it('accepts known arguments', async () => {
+    const result = await client.callTool({ name: 'calculate_payroll', arguments: payroll });
+    assert.notEqual(result.isError, true);
+  });
+
+  for (const [label, name, args] of [
+    ['a misspelled top-level argument', 'calculate_payroll', { ...payroll, customParam: { minWage: 30000 } }],
+    ['a misspelled custom parameter', 'calculate_payroll', { ...payroll, customParams: { minWge: 30000 } }],
+    [
+      'a misspelled employee field',
+      'calculate_bulk_payroll',
+      { year: 2025, month: 6, employees: [{ name: 'A', wage: 50000, calculationType: 'Gross', wagee: 1 }] },
+    ],
+    [
+      'a misspelled target field',
+      'solve_wage',
+      { calculationType: 'Gross', year: 2025, month: 6, target: { metric: 'netWage', value: 40000, scpoe: 'total' } },
+    ],
+  ] as const) {
+    it(`rejects ${label}`, async () => {
+      const result = await client.callTool({ name, arguments: args });
+      assert.equal(result.isError, true);
+      assert.match(JSON.stringify(result.content), /Unrecognized key/);
+    });
+  }
+});
+
+describe('createServer API key', () => {
+  it('uses only the key it is given', () => {
+    const saved = { PAYROLLA_ENGINE: process.env.PAYROLLA_ENGINE, PAYROLLA_API_KEY: process.env.PAYROLLA_API_KEY };
+    process.env.PAYROLLA_ENGINE = 'remote';
+    process.env.PAYROLLA_API_KEY = 'pk_test_env';
+    try {
+      assert.throws(() => createServer(undefined), /API key is required/);
+    } finally {
+      for (const [name, value] of Object.entries(saved)) {
+        if (value === undefined) {
+          delete process.env[name];
+        } else {
+          process.env[name] = value;
+        }
+      }
+    }
+  });
+});
@@ -3,7 +3,6 @@
  */
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { PayrollaClient } from 'payrolla';
 import { z } from 'zod';
 
 import {
@@ -12,11 +11,22 @@ import {
   getDefaultParams,
   simulateBudget,
   compareScenarios,
+  projectMultiYear,
+  solveWage,
+  allocateRaisePool,
+  calculateTerminationCost,
+  importRoster,
+  RosterStore,
 } from './tools/index.js';
+import { createPayrollCalculator, getEngineType, type PayrollCalculator } from './engine/index.js';
+import { classifyError } from './errors.js';
 import { registerResources } from './resources/index.js';
 import { registerPrompts } from './prompts/index.js';
 
 // Zod schemas for tool inputs
+const BenefitTypeSchema = z.enum(['Meal', 'Transport', 'PrivateHealth', 'PrivatePension'])
+  .describe('Fringe benefit with statutory exemptions: Meal (meal card), Transport (transport allowance), PrivateHealth (private health insurance premium), PrivatePension (employer BES contribution); the amount must be Gross');
+
 const ExtraPaymentSchema = z.object({
   name: z.string().describe('Name of the extra payment'),
   amount: z.number().describe('Payment amount'),
@@ -28,7 +38,8 @@ const ExtraPaymentSchema = z.object({
     z.literal(4),
     z.enum(['RegularPayment', 'Overtime', 'SocialAid', 'ExtraPay']),
   ]).optional().describe('Payment type (1: RegularPayment, 2: Overtime, 3: SocialAid, 4: ExtraPay)'),
-});
+  benefitType: BenefitTypeSchema.optional(),
+}).strict();
 
 const PayEventSchema = z.object({
   month: z.number().min(1).max(12).describe('Month when the payment occurs (1-12)'),
@@ -43,7 +54,8 @@ const PayEventSchema = z.object({
     z.literal(4),
     z.enum(['RegularPayment', 'Overtime', 'SocialAid', 'ExtraPay']),
   ]).optional().describe('Payment category: 1/RegularPayment, 2/Overtime, 3/SocialAid, 4/ExtraPay (default: 4)'),
-});
+  benefitType: BenefitTypeSchema.optional(),
+}).strict();
 
 const CustomParamsSchema = z.object({
   minWage: z.number().optional().describe('Custom minimum wage (gross)'),
@@ -54,8 +66,50 @@ const CustomParamsSchema = z.object({
   incomeTaxLimits: z.array(z.object({
     limit: z.number().describe('Upper limit for this bracket'),
     rate: z.number().describe('Tax rate (e.g., 0.15 for 15%)'),
-  })).optional().describe('Custom income tax brackets'),
-});
+  }).strict()).optional().describe('Custom income tax brackets'),
+  mealExemptionDaily: z.number().min(0).optional().describe('Custom daily income tax exemption for meal benefits'),
+  transportExemptionDaily: z.number().min(0).optional().describe('Custom daily income tax exemption for transport benefits'),
+}).strict();
+
+const MonthSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Expected YYYY-MM');
+
+const DateSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/, 'Expected YYYY-MM-DD');
+
+const SSIIncentiveSchema = z.object({
+  code: z.enum(['5510', '6111']).describe('Incentive code: 5510 (5-point employer SSI discount) or 6111 (youth and women hiring, employer SSI premium covered)'),
+  startDate: MonthSchema.describe('First month the incentive applies (YYYY-MM)'),
+  endDate: MonthSchema.optional().describe('Last month the incentive applies (YYYY-MM, optional)'),
+}).strict();
+
+const WagePeriodSchema = z.enum(['Monthly', 'Daily', 'Hourly']);
+
+const OvertimeHoursSchema = z.object({
+  type: z.enum(['Overtime', 'ExtraHours', 'Holiday']).describe('Overtime (beyond 45 hours a week, paid 150%), ExtraHours (beyond a shorter contractual week, paid 125%) or Holiday (holiday work, an extra 100%)'),
+  hours: z.number().min(0).describe('Hours worked in the month'),
+  year: z.number().optional().describe('Year of the hours (optional; without year and month they repeat every month)'),
+  month: z.number().min(1).max(12).optional().describe('Month of the hours (1-12, optional)'),
+}).strict();
+
+const AttendanceSchema = z.object({
+  year: z.number().optional().describe('Year of the absences (optional; without year and month they repeat every month)'),
+  month: z.number().min(1).max(12).optional().describe('Month of the absences (1-12, optional)'),
+  unpaidLeaveDays: z.number().int().min(0).optional().describe('Unpaid leave days'),
+  sickLeaveDays: z.number().int().min(0).optional().describe('Sick leave days covered by an SGK report'),
+  missingDays: z.number().int().min(0).optional().describe('Other unpaid missing days'),
+  sickPayOffset: z.boolean().optional().describe('Employer keeps paying the wage during sick leave and offsets the SGK allowance (default: false)'),
+}).strict();
+
+const DeductionSchema = z.object({
+  name: z.string().describe('Deduction name (e.g., "Court order 2025/123")'),
+  type: z.enum(['Garnishment', 'Advance', 'UnionDues']).describe('Garnishment (court order, at most a quarter of net), Advance (salary advance repayment) or UnionDues'),
+  amount: z.number().min(0).optional().describe('Amount per month (required except for garnishments, which default to a quarter of net)'),
+  balance: z.number().min(0).optional().describe('Outstanding total; the deduction stops once it is repaid'),
+}).strict();
+
+const PensionAutoEnrolmentSchema = z.object({
+  optedOut: z.boolean().optional().describe('Employee opted out of the auto-enrolment pension (default: false)'),
+  rate: z.number().min(0).max(1).optional().describe('Contribution rate on the SSI base (default: 0.03)'),
+}).strict();
 
 const EmployeeInputSchema = z.object({
   name: z.string().describe('Employee name'),
@@ -63,12 +117,69 @@ const EmployeeInputSchema = z.object({
   calculationType: z.enum(['Gross', 'Net']).describe('Whether wage is gross or net'),
   ssiType: z.enum(['S4A', 'S4B', 'S4C']).optional().describe('SSI type (default: S4A)'),
   extraPayments: z.array(ExtraPaymentSchema).optional().describe('Extra payments like bonuses'),
+  incentives: z.array(SSIIncentiveSchema).optional().describe('Employer SSI incentives with their date ranges'),
+  wagePeriod: WagePeriodSchema.optional().describe('Unit the wage is paid in (default: Monthly)'),
+  workedDays: z.number().int().min(1).max(30).optional().describe('SSI days worked in the month (required for daily wages; prorates monthly wages)'),
+  workedHours: z.number().positive().optional().describe('Hours worked in the month (required for hourly wages; 7.5 hours count as one SSI day)'),
+  overtime: z.array(OvertimeHoursSchema).optional().describe('Overtime hours, paid at the statutory multipliers of the hourly gross wage'),
+  attendance: z.array(AttendanceSchema).optional().describe('Unpaid leave, sick leave and missing days'),
+  deductions: z.array(DeductionSchema).optional().describe('Post-tax deductions taken from the net wage'),
+  pensionAutoEnrolment: PensionAutoEnrolmentSchema.optional().describe('BES auto-enrolment; the employee contributes 3% of the SSI base unless opted out'),
   cumulativeIncomeTaxBase: z.number().optional().describe('Starting cumulative income tax base'),
   cumulativeMinWageIncomeTaxBase: z.number().optional().describe('Starting cumulative minimum wage income tax base'),
   transferredSSIBase1: z.number().optional().describe('Starting transferred SSI base 1'),
   transferredSSIBase2: z.number().optional().describe('Starting transferred SSI base 2'),
+}).strict();
+
+const RaiseStepSchema = z.object({
+  year: z.number().describe('Year the raise takes effect'),
+  month: z.number().min(1).max(12).describe('Month the raise takes effect (1-12)'),
+  percent: z.number().optional().describe('Raise percentage (e.g., 10 for 10%)'),
+  amount: z.number().optional().describe('Absolute raise amount added to the wage'),
+}).strict().refine((step) => (step.percent === undefined) !== (step.amount === undefined), {
+  message: 'Specify exactly one of percent or amount',
+});
+
+const SimulationEmployeeSchema = z.object({
+  name: z.string().describe('Employee name'),
+  wage: z.number().describe('Current wage amount'),
+  calculationType: z.enum(['Gross', 'Net']).describe('Wage type'),
+  ssiType: z.enum(['S4A', 'S4B', 'S4C']).optional().describe('SSI type (default: S4A)'),
+  payEvents: z.array(PayEventSchema).optional().describe('Extra payments at specific months (e.g., bonuses)'),
+  raises: z.array(RaiseStepSchema).optional().describe('Per-employee raise schedule; replaces the scenario raiseSchedule for this employee'),
+  incentives: z.array(SSIIncentiveSchema).optional().describe('Employer SSI incentives with their date ranges'),
+  wagePeriod: WagePeriodSchema.optional().describe('Unit the wage is paid in (default: Monthly)'),
+  workedDays: z.number().int().min(1).max(30).optional().describe('SSI days worked in a regular month (daily wages default to every day on payroll; prorates monthly wages)'),
+  workedHours: z.number().positive().optional().describe('Hours worked in a regular month (required for hourly wages)'),
+  overtime: z.array(OvertimeHoursSchema).optional().describe('Overtime hours, every month or in a given year and month, paid at the statutory multipliers of the hourly gross wage'),
+  attendance: z.array(AttendanceSchema).optional().describe('Unpaid leave, sick leave and missing days, every month or in a given year and month'),
+  startDate: DateSchema.optional().describe('First day on payroll (YYYY-MM-DD); the first month is prorated by days'),
+  endDate: DateSchema.optional().describe('Last day on payroll (YYYY-MM-DD) for leavers; the last month is prorated by days'),
+  cumulativeIncomeTaxBase: z.number().optional().describe('Starting cumulative income tax base (for simulations starting after January)'),
+  cumulativeMinWageIncomeTaxBase: z.number().optional().describe('Starting cumulative minimum wage income tax base'),
+  transferredSSIBase1: z.number().optional().describe('Starting transferred SSI base 1'),
+  transferredSSIBase2: z.number().optional().describe('Starting transferred SSI base 2'),
+}).strict();
+
+const PlannedHireSchema = SimulationEmployeeSchema.omit({ name: true, startDate: true }).extend({
+  role: z.string().describe('Role of the planned hires (e.g., "Engineer")'),
+  count: z.number().int().min(1).optional().describe('Number of hires (default: 1)'),
+  startDate: DateSchema.describe('First day on payroll (YYYY-MM-DD)'),
 });
 
+const ParameterChangeSchema = CustomParamsSchema.extend({
+  year: z.number().describe('Year the change takes effect'),
+  month: z.number().min(1).max(12).describe('Month the change takes effect (1-12)'),
+});
+
+const ProjectionYearAssumptionSchema = z.object({
+  year: z.number().describe('Year the assumption applies to'),
+  raisePercent: z.number().optional().describe('Salary raise applied in January (e.g., inflation-linked 25 for 25%)'),
+  minWage: z.number().optional().describe('Expected gross minimum wage for the year'),
+  taxLimitIncreasePercent: z.number().optional().describe('Tax bracket indexation percentage'),
+  ssiLimitIncreasePercent: z.number().optional().describe('SSI limit increase percentage'),
+}).strict();
+
 const ScenarioConfigSchema = z.object({
   name: z.string().optional().describe('Scenario name for comparison'),
   salaryRaisePercent: z.number().optional().describe('Salary raise percentage (e.g., 10 for 10%)'),
@@ -79,25 +190,67 @@ const ScenarioConfigSchema = z.object({
   customTaxBrackets: z.array(z.object({
     limit: z.number(),
     rate: z.number(),
-  })).optional().describe('Custom tax brackets'),
-});
+  }).strict()).optional().describe('Custom tax brackets'),
+  raiseSchedule: z.array(RaiseStepSchema).optional().describe('Dated raises applied on top of salaryRaisePercent (e.g., 10% in January, 8% in July)'),
+  parameterChanges: z.array(ParameterChangeSchema).optional().describe('Timeline of parameter changes, each effective from its month onwards (e.g., minWage from July, new tax brackets from January next year)'),
+  autoLiftToMinWage: z.boolean().optional().describe('Raise wages below the effective minimum wage to it; the lift cost is reported separately'),
+  dropIncentives: z.array(z.enum(['5510', '6111'])).optional().describe('Incentive codes lost in this scenario (e.g., ["5510"] to lose the 5-point discount)'),
+}).strict();
+
+const RaisePoolRulesSchema = z.object({
+  minPercent: z.number().min(0).optional().describe('Minimum raise percentage for every employee'),
+  maxPercent: z.number().min(0).optional().describe('Maximum raise percentage for every employee'),
+  topEarnerCap: z.object({
+    threshold: z.number().positive().describe('Current wage from which the cap applies, in the employee\'s wage unit'),
+    maxPercent: z.number().min(0).describe('Maximum raise percentage for these employees'),
+  }).strict().optional().describe('Lower raise cap for top earners'),
+  prioritizeLowestPaid: z.boolean().optional().describe('Raise those closest to minimum wage first (default: true); false gives everyone the same percentage'),
+}).strict();
 
 /**
- * Create and configure the MCP server
+ * Build an MCP error result with a readable message and structured details
+ * (kind, retryability, and the employee/period that failed when known)
  */
-export function createServer(): McpServer {
-  // Get API key from environment
-  const apiKey = process.env.PAYROLLA_API_KEY;
-  if (!apiKey) {
-    console.error('Error: PAYROLLA_API_KEY environment variable is required');
-    process.exit(1);
+function errorResult(error: unknown) {
+  const details = classifyError(error).toDetails();
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: `Error: ${details.message}`,
+      },
+      {
+        type: 'text' as const,
+        text: JSON.stringify({ error: details }, null, 2),
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Server options
+ */
+export interface ServerOptions {
+  /** Let import_roster read files from the server's disk (default: true) */
+  allowLocalFiles?: boolean;
+}
+
+/**
+ * Create and configure the MCP server.
+ * The stdio entry point passes PAYROLLA_API_KEY and the HTTP transport the
+ * key supplied by each session; either may be undefined for the local engine.
+ */
+export function createServer(
+  apiKey: string | undefined,
+  options: ServerOptions = {}
+): McpServer {
+  if (!apiKey && getEngineType() === 'remote') {
+    throw new Error('A Payrolla API key is required for the remote engine');
   }
 
-  // Create Payrolla client
-  const payrollaClient = new PayrollaClient({
-    apiKey,
-    timeout: 30000,
-  });
+  // Create payroll calculator (Payrolla API client or local engine)
+  const payrollaClient = createPayrollCalculator(apiKey);
 
   // Create MCP server
   const server = new McpServer({
@@ -106,7 +259,7 @@ export function createServer(): McpServer {
   });
 
   // Register tools
-  registerTools(server, payrollaClient);
+  registerTools(server, payrollaClient, new RosterStore(), options.allowLocalFiles ?? true);
 
   // Register resources
   registerResources(server);
@@ -118,27 +271,45 @@ export function createServer(): McpServer {
 }
 
 /**
- * Register MCP tools
+ * Register MCP tools.
+ * Input schemas are strict objects, so unknown or misspelled arguments
+ * are rejected instead of silently dropped.
  */
-function registerTools(server: McpServer, client: PayrollaClient): void {
+function registerTools(
+  server: McpServer,
+  client: PayrollCalculator,
+  rosters: RosterStore,
+  allowLocalFiles: boolean
+): void {
   // Tool: calculate_payroll
-  server.tool(
+  server.registerTool(
     'calculate_payroll',
-    'Calculate payroll for a single employee including taxes, SSI, and employer cost',
     {
-      name: z.string().describe('Employee name'),
-      wage: z.number().describe('Wage amount'),
-      calculationType: z.enum(['Gross', 'Net']).describe('Whether the wage is gross or net'),
-      ssiType: z.enum(['S4A', 'S4B', 'S4C']).optional().describe('SSI type (default: S4A for general employees)'),
-      year: z.number().describe('Calculation year (e.g., 2025)'),
-      month: z.number().min(1).max(12).describe('Starting month (1-12)'),
-      periodCount: z.number().min(1).max(12).optional().describe('Number of months to calculate (default: 1)'),
-      extraPayments: z.array(ExtraPaymentSchema).optional().describe('Extra payments like bonuses'),
-      customParams: CustomParamsSchema.optional().describe('Custom global parameters to override defaults'),
-      cumulativeIncomeTaxBase: z.number().optional().describe('Starting cumulative income tax base to carry from previous months'),
-      cumulativeMinWageIncomeTaxBase: z.number().optional().describe('Starting cumulative minimum wage income tax base'),
-      transferredSSIBase1: z.number().optional().describe('Starting transferred SSI base 1'),
-      transferredSSIBase2: z.number().optional().describe('Starting transferred SSI base 2'),
+      description: 'Calculate payroll for a single employee including taxes, SSI, and employer cost',
+      inputSchema: z.object({
+        name: z.string().describe('Employee name'),
+        wage: z.number().describe('Wage amount'),
+        calculationType: z.enum(['Gross', 'Net']).describe('Whether the wage is gross or net'),
+        ssiType: z.enum(['S4A', 'S4B', 'S4C']).optional().describe('SSI type (default: S4A for general employees)'),
+        year: z.number().describe('Calculation year (e.g., 2025)'),
+        month: z.number().min(1).max(12).describe('Starting month (1-12)'),
+        periodCount: z.number().min(1).max(24).optional().describe('Number of months to calculate (default: 1, up to 24; income tax bases restart each January)'),
+        extraPayments: z.array(ExtraPaymentSchema).optional().describe('Extra payments like bonuses'),
+        customParams: CustomParamsSchema.optional().describe('Custom global parameters to override defaults'),
+        incentives: z.array(SSIIncentiveSchema).optional().describe('Employer SSI incentives with their date ranges (S4A only)'),
+        wagePeriod: WagePeriodSchema.optional().describe('Unit the wage is paid in (default: Monthly); daily and hourly wages are multiplied by the days or hours worked'),
+        workedDays: z.number().int().min(1).max(30).optional().describe('SSI days worked each month (required for daily wages; prorates monthly wages and the SSI lower limit)'),
+        workedHours: z.number().positive().optional().describe('Hours worked each month (required for hourly wages; 7.5 hours count as one SSI day)'),
+        overtime: z.array(OvertimeHoursSchema).optional().describe('Overtime hours, paid at the statutory multipliers of the hourly gross wage'),
+        attendance: z.array(AttendanceSchema).optional().describe('Unpaid leave, sick leave and missing days; they reduce the SSI days and the paid wage'),
+        deductions: z.array(DeductionSchema).optional().describe('Post-tax deductions taken from the net wage each month'),
+        pensionAutoEnrolment: PensionAutoEnrolmentSchema.optional().describe('BES auto-enrolment; the employee contributes 3% of the SSI base unless opted out'),
+        cumulativeIncomeTaxBase: z.number().optional().describe('Starting cumulative income tax base to carry from previous months'),
+        cumulativeMinWageIncomeTaxBase: z.number().optional().describe('Starting cumulative minimum wage income tax base'),
+        basesYear: z.number().optional().describe('Year the starting cumulative bases belong to (default: calculation year); they reset if the calculation starts in a later year'),
+        transferredSSIBase1: z.number().optional().describe('Starting transferred SSI base 1'),
+        transferredSSIBase2: z.number().optional().describe('Starting transferred SSI base 2'),
+      }).strict(),
     },
     async (params) => {
       try {
@@ -152,33 +323,63 @@ function registerTools(server: McpServer, client: PayrollaClient): void {
           ],
         };
       } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // Tool: calculate_bulk_payroll
+  server.registerTool(
+    'calculate_bulk_payroll',
+    {
+      description: 'Calculate payroll for multiple employees with shared parameters',
+      inputSchema: z.object({
+        employees: z.array(EmployeeInputSchema).optional().describe('Array of employees to calculate (or give rosterId)'),
+        rosterId: z.string().optional().describe('ID of a roster stored by import_roster, instead of employees'),
+        year: z.number().describe('Calculation year (e.g., 2025)'),
+        month: z.number().min(1).max(12).describe('Starting month (1-12)'),
+        periodCount: z.number().min(1).max(24).optional().describe('Number of months (default: 1, use 12 for yearly, up to 24)'),
+        customParams: CustomParamsSchema.optional().describe('Custom global parameters shared by all employees'),
+        allowPartialResults: z.boolean().optional().describe('Return results for the employees that succeeded and list failures instead of failing the whole call (default: false)'),
+      }).strict(),
+    },
+    async (params) => {
+      try {
+        const { employees, warnings } = rosters.resolveBulk(params.employees, params.rosterId);
+        const result = await calculateBulkPayroll(client, { ...params, employees } as any);
         return {
           content: [
             {
               type: 'text',
-              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              text: JSON.stringify({ ...result, ...(warnings.length > 0 && { warnings }) }, null, 2),
             },
           ],
-          isError: true,
         };
+      } catch (error) {
+        return errorResult(error);
       }
     }
   );
 
-  // Tool: calculate_bulk_payroll
-  server.tool(
-    'calculate_bulk_payroll',
-    'Calculate payroll for multiple employees with shared parameters',
+  // Tool: simulate_budget
+  server.registerTool(
+    'simulate_budget',
     {
-      employees: z.array(EmployeeInputSchema).describe('Array of employees to calculate'),
-      year: z.number().describe('Calculation year (e.g., 2025)'),
-      month: z.number().min(1).max(12).describe('Starting month (1-12)'),
-      periodCount: z.number().min(1).max(12).optional().describe('Number of months (default: 1, use 12 for yearly)'),
-      customParams: CustomParamsSchema.optional().describe('Custom global parameters shared by all employees'),
+      description: 'Simulate budget with what-if scenarios like salary raises or parameter changes',
+      inputSchema: z.object({
+        employees: z.array(SimulationEmployeeSchema).optional().describe('Array of employees (or give rosterId)'),
+        rosterId: z.string().optional().describe('ID of a roster stored by import_roster, instead of employees'),
+        plannedHires: z.array(PlannedHireSchema).optional().describe('Planned hires, e.g. 3 engineers from April at 90,000 gross'),
+        year: z.number().describe('Calculation year'),
+        month: z.number().min(1).max(12).optional().describe('Starting month (1-12, default: 1); periods continue into the next year when needed'),
+        periodCount: z.number().min(1).max(12).describe('Number of months (use 12 for yearly)'),
+        scenario: ScenarioConfigSchema.describe('Scenario configuration with changes to apply'),
+      }).strict(),
     },
     async (params) => {
       try {
-        const result = await calculateBulkPayroll(client, params as any);
+        const employees = rosters.resolve(params.employees, params.rosterId);
+        const result = await simulateBudget(client, { ...params, employees } as any);
         return {
           content: [
             {
@@ -188,38 +389,58 @@ function registerTools(server: McpServer, client: PayrollaClient): void {
           ],
         };
       } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // Tool: compare_scenarios
+  server.registerTool(
+    'compare_scenarios',
+    {
+      description: 'Compare multiple budget scenarios side by side',
+      inputSchema: z.object({
+        employees: z.array(SimulationEmployeeSchema).optional().describe('Array of employees (or give rosterId)'),
+        rosterId: z.string().optional().describe('ID of a roster stored by import_roster, instead of employees'),
+        year: z.number().describe('Calculation year'),
+        month: z.number().min(1).max(12).optional().describe('Starting month (1-12, default: 1); periods continue into the next year when needed'),
+        periodCount: z.number().min(1).max(12).describe('Number of months'),
+        scenarios: z.array(ScenarioConfigSchema).min(1).describe('Array of scenarios to compare'),
+      }).strict(),
+    },
+    async (params) => {
+      try {
+        const employees = rosters.resolve(params.employees, params.rosterId);
+        const result = await compareScenarios(client, { ...params, employees } as any);
         return {
           content: [
             {
               type: 'text',
-              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              text: JSON.stringify(result, null, 2),
             },
           ],
-          isError: true,
         };
+      } catch (error) {
+        return errorResult(error);
       }
     }
   );
 
-  // Tool: simulate_budget
-  server.tool(
-    'simulate_budget',
-    'Simulate budget with what-if scenarios like salary raises or parameter changes',
+  // Tool: project_multi_year
+  server.registerTool(
+    'project_multi_year',
     {
-      employees: z.array(z.object({
-        name: z.string().describe('Employee name'),
-        wage: z.number().describe('Current wage amount'),
-        calculationType: z.enum(['Gross', 'Net']).describe('Wage type'),
-        ssiType: z.enum(['S4A', 'S4B', 'S4C']).optional().describe('SSI type (default: S4A)'),
-        payEvents: z.array(PayEventSchema).optional().describe('Extra payments at specific months (e.g., bonuses)'),
-      })).describe('Array of employees'),
-      year: z.number().describe('Calculation year'),
-      periodCount: z.number().min(1).max(12).describe('Number of months (use 12 for yearly)'),
-      scenario: ScenarioConfigSchema.describe('Scenario configuration with changes to apply'),
+      description: 'Project payroll cost over several years with per-year raise, minimum wage and tax bracket indexation assumptions',
+      inputSchema: z.object({
+        employees: z.array(SimulationEmployeeSchema).describe('Array of employees with their current wages'),
+        startYear: z.number().describe('First projected year'),
+        endYear: z.number().describe('Last projected year (up to 10 years in total)'),
+        assumptions: z.array(ProjectionYearAssumptionSchema).optional().describe('Assumptions per year; years without official parameters build on the previous year'),
+      }).strict(),
     },
     async (params) => {
       try {
-        const result = await simulateBudget(client, params as any);
+        const result = await projectMultiYear(client, params as any);
         return {
           content: [
             {
@@ -229,38 +450,74 @@ function registerTools(server: McpServer, client: PayrollaClient): void {
           ],
         };
       } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // Tool: solve_wage
+  server.registerTool(
+    'solve_wage',
+    {
+      description: 'Find the gross or net wage that meets a target employer cost, net wage or gross wage, monthly or in total over the periods',
+      inputSchema: z.object({
+        name: z.string().optional().describe('Employee name (optional)'),
+        calculationType: z.enum(['Gross', 'Net']).describe('Whether to solve for a gross or a net wage'),
+        target: z.object({
+          metric: z.enum(['employerCost', 'netWage', 'grossWage']).describe('Metric to hit'),
+          value: z.number().positive().describe('Target value in TL'),
+          scope: z.enum(['monthly', 'total']).optional().describe('Monthly average over the periods or total across them (default: monthly)'),
+        }).strict().describe('Target to solve for, e.g. employerCost 80000 monthly or 1200000 total over 12 periods'),
+        ssiType: z.enum(['S4A', 'S4B', 'S4C']).optional().describe('SSI type (default: S4A)'),
+        year: z.number().describe('Calculation year (e.g., 2025)'),
+        month: z.number().min(1).max(12).describe('Starting month (1-12)'),
+        periodCount: z.number().min(1).max(24).optional().describe('Number of months (default: 1, use 12 for yearly targets)'),
+        extraPayments: z.array(ExtraPaymentSchema).optional().describe('Extra payments included every period'),
+        customParams: CustomParamsSchema.optional().describe('Custom global parameters to override defaults'),
+        incentives: z.array(SSIIncentiveSchema).optional().describe('Employer SSI incentives with their date ranges (S4A only)'),
+        cumulativeIncomeTaxBase: z.number().optional().describe('Starting cumulative income tax base'),
+        cumulativeMinWageIncomeTaxBase: z.number().optional().describe('Starting cumulative minimum wage income tax base'),
+        transferredSSIBase1: z.number().optional().describe('Starting transferred SSI base 1'),
+        transferredSSIBase2: z.number().optional().describe('Starting transferred SSI base 2'),
+        tolerance: z.number().positive().optional().describe('Accepted difference from the target in TL (default: 1)'),
+      }).strict(),
+    },
+    async (params) => {
+      try {
+        const result = await solveWage(client, params as any);
         return {
           content: [
             {
               type: 'text',
-              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              text: JSON.stringify(result, null, 2),
             },
           ],
-          isError: true,
         };
+      } catch (error) {
+        return errorResult(error);
       }
     }
   );
 
-  // Tool: compare_scenarios
-  server.tool(
-    'compare_scenarios',
-    'Compare multiple budget scenarios side by side',
+  // Tool: allocate_raise_pool
+  server.registerTool(
+    'allocate_raise_pool',
     {
-      employees: z.array(z.object({
-        name: z.string().describe('Employee name'),
-        wage: z.number().describe('Current wage'),
-        calculationType: z.enum(['Gross', 'Net']).describe('Wage type'),
-        ssiType: z.enum(['S4A', 'S4B', 'S4C']).optional().describe('SSI type (default: S4A)'),
-        payEvents: z.array(PayEventSchema).optional().describe('Extra payments at specific months (e.g., bonuses)'),
-      })).describe('Array of employees'),
-      year: z.number().describe('Calculation year'),
-      periodCount: z.number().min(1).max(12).describe('Number of months'),
-      scenarios: z.array(ScenarioConfigSchema).min(1).describe('Array of scenarios to compare'),
+      description: 'Distribute a fixed raise budget across employees under raise rules, keeping everyone above the minimum wage, and verify the true cost by simulation',
+      inputSchema: z.object({
+        employees: z.array(SimulationEmployeeSchema).min(1).describe('Array of employees with their current wages'),
+        pool: z.number().positive().describe('Raise pool: additional employer cost in TL over the simulated periods'),
+        year: z.number().describe('Calculation year'),
+        month: z.number().min(1).max(12).optional().describe('Starting month (1-12, default: 1)'),
+        periodCount: z.number().min(1).max(12).describe('Number of months the pool covers (12 for a yearly budget)'),
+        rules: RaisePoolRulesSchema.optional().describe('Allocation rules'),
+        scenario: ScenarioConfigSchema.omit({ salaryRaisePercent: true, raiseSchedule: true }).optional().describe('Parameter assumptions, e.g. the new minimum wage'),
+        tolerance: z.number().positive().optional().describe('Accepted unspent amount in TL (default: 0.1% of the pool)'),
+      }).strict(),
     },
     async (params) => {
       try {
-        const result = await compareScenarios(client, params as any);
+        const result = await allocateRaisePool(client, params as any);
         return {
           content: [
             {
@@ -270,29 +527,70 @@ function registerTools(server: McpServer, client: PayrollaClient): void {
           ],
         };
       } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // Tool: calculate_termination_cost
+  server.registerTool(
+    'calculate_termination_cost',
+    {
+      description: 'Calculate the cost of terminating an employee: final month wage, unused leave, notice pay (ihbar) and severance pay (kıdem) with their tax treatment',
+      inputSchema: z.object({
+        name: z.string().describe('Employee name'),
+        hireDate: DateSchema.describe('Hire date (YYYY-MM-DD)'),
+        terminationDate: DateSchema.describe('Last day of employment (YYYY-MM-DD)'),
+        lastGrossWage: z.number().positive().describe('Last monthly gross wage'),
+        monthlyBenefits: z.number().min(0).optional().describe('Regular monthly benefits included in the notice and severance base (e.g., meal and transport)'),
+        unusedLeaveDays: z.number().min(0).optional().describe('Unused annual leave days paid out with the final wage'),
+        severanceEligible: z.boolean().optional().describe('Whether the termination reason entitles the employee to severance pay (default: true)'),
+        payNotice: z.boolean().optional().describe('Pay notice in lieu instead of serving the notice period (default: true)'),
+        severanceCeiling: z.number().positive().optional().describe('Severance ceiling override (default: the official ceiling on the termination date)'),
+        ssiType: z.enum(['S4A', 'S4B', 'S4C']).optional().describe('SSI type (default: S4A)'),
+        customParams: CustomParamsSchema.optional().describe('Custom global parameters to override defaults'),
+        cumulativeIncomeTaxBase: z.number().optional().describe('Cumulative income tax base before the final month'),
+        cumulativeMinWageIncomeTaxBase: z.number().optional().describe('Cumulative minimum wage income tax base before the final month'),
+        transferredSSIBase1: z.number().optional().describe('Transferred SSI base 1'),
+        transferredSSIBase2: z.number().optional().describe('Transferred SSI base 2'),
+      }).strict(),
+    },
+    async (params) => {
+      try {
+        const result = await calculateTerminationCost(client, params as any);
         return {
           content: [
             {
               type: 'text',
-              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              text: JSON.stringify(result, null, 2),
             },
           ],
-          isError: true,
         };
+      } catch (error) {
+        return errorResult(error);
       }
     }
   );
 
-  // Tool: get_default_params
-  server.tool(
-    'get_default_params',
-    'Get default Turkish payroll parameters for a given year',
+  // Tool: import_roster
+  server.registerTool(
+    'import_roster',
     {
-      year: z.number().describe('Year to get parameters for (e.g., 2025)'),
+      description: 'Import an employee roster from a CSV or XLSX file, validate every row and store it under a roster ID that calculate_bulk_payroll, simulate_budget and compare_scenarios accept instead of an employees array',
+      inputSchema: z.object({
+        content: z.string().optional().describe('File content: CSV text, or the XLSX file base64 encoded'),
+        path: z.string().optional().describe('Path of a CSV or XLSX file on the server (instead of content; not available over HTTP)'),
+        format: z.enum(['csv', 'xlsx']).optional().describe('File format (default: from the file extension, or detected from the content)'),
+        sheet: z.string().optional().describe('XLSX sheet name (default: the first sheet)'),
+        name: z.string().optional().describe('Label for the roster, returned with the result'),
+        columns: z.record(z.string()).optional().describe('Header of the column for an employee field when it is not recognised, e.g. { "wage": "Brüt Maaş" }; fields are name, wage, calculationType, ssiType, wagePeriod, workedDays, workedHours, startDate, endDate and the starting cumulative/transfer bases'),
+        defaultCalculationType: z.enum(['Gross', 'Net']).optional().describe('Wage type for rows without a calculationType column or value (default: Gross)'),
+        skipInvalidRows: z.boolean().optional().describe('Store the valid rows and list the invalid ones instead of rejecting the import (default: false)'),
+      }).strict(),
     },
     async (params) => {
       try {
-        const result = getDefaultParams(params);
+        const result = await importRoster(rosters, params as any, { allowLocalFiles });
         return {
           content: [
             {
@@ -302,15 +600,34 @@ function registerTools(server: McpServer, client: PayrollaClient): void {
           ],
         };
       } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // Tool: get_default_params
+  server.registerTool(
+    'get_default_params',
+    {
+      description: 'Get default Turkish payroll parameters for a given year, including mid-year changes. Years without official values are flagged as extrapolated',
+      inputSchema: z.object({
+        year: z.number().describe('Year to get parameters for (e.g., 2025)'),
+        month: z.number().min(1).max(12).optional().describe('Month to resolve parameters for when they changed mid-year (default: 1)'),
+      }).strict(),
+    },
+    async (params) => {
+      try {
+        const result = getDefaultParams(params);
         return {
           content: [
             {
               type: 'text',
-              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              text: JSON.stringify(result, null, 2),
             },
           ],
-          isError: true,
         };
+      } catch (error) {
+        return errorResult(error);
       }
     }
   );
@@ -0,0 +1,232 @@
+/**
+ * Raise pool allocation tool for MCP server
+ */
+
+import type { PayrollCalculator } from "../engine/index.js";
+import type {
+  AllocateRaisePoolInput,
+  AllocateRaisePoolResult,
+  RaiseAllocation,
+  SimulateBudgetResult,
+} from "../types/index.js";
+import { ValidationError } from "../errors.js";
+import { getMinWageFloor } from "./compliance.js";
+import { simulateBudget } from "./params.js";
+
+/**
+ * Default accepted gap between the pool and the allocated cost, as a share
+ * of the pool
+ */
+const DEFAULT_TOLERANCE_RATIO = 0.001;
+
+const MAX_ITERATIONS = 40;
+
+/**
+ * Stop once the allocation level interval is narrower than this
+ */
+const MIN_LEVEL_STEP = 1e-9;
+
+/**
+ * Wage bounds for one employee
+ */
+interface WageBounds {
+  floor: number;
+  mandatory: number;
+  cap: number;
+  minPercentWage: number;
+}
+
+/**
+ * Round a wage to kuruş
+ */
+function roundWage(wage: number): number {
+  return Math.round(wage * 100) / 100;
+}
+
+/**
+ * Distribute a raise pool (additional employer cost over the simulated
+ * periods) across employees. Mandatory raises come first: the rules'
+ * minimum percentage and the highest minimum wage in the window. The rest
+ * goes to the lowest paid relative to the minimum wage (or proportionally),
+ * within the per-person caps. Every candidate allocation is costed with
+ * `simulateBudget`, so tax bracket and SSI ceiling effects are included.
+ */
+export async function allocateRaisePool(
+  client: PayrollCalculator,
+  input: AllocateRaisePoolInput
+): Promise<AllocateRaisePoolResult> {
+  const { employees, pool, year, month, periodCount, rules = {} } = input;
+  const scenario = input.scenario ?? {};
+  const minPercent = rules.minPercent ?? 0;
+  const prioritizeLowestPaid = rules.prioritizeLowestPaid ?? true;
+  const tolerance = input.tolerance ?? pool * DEFAULT_TOLERANCE_RATIO;
+
+  if (employees.length === 0) {
+    throw new ValidationError("At least one employee is required");
+  }
+  if (pool <= 0) {
+    throw new ValidationError("Raise pool must be positive");
+  }
+  if (minPercent < 0) {
+    throw new ValidationError("Minimum raise percentage must not be negative");
+  }
+  if (rules.maxPercent !== undefined && rules.maxPercent < minPercent) {
+    throw new ValidationError("Maximum raise percentage is below the minimum");
+  }
+  if (rules.topEarnerCap && rules.topEarnerCap.maxPercent < minPercent) {
+    throw new ValidationError("Top earner cap is below the minimum raise percentage");
+  }
+
+  let iterations = 0;
+  const simulate = (wages: number[]): Promise<SimulateBudgetResult> => {
+    iterations++;
+    return simulateBudget(client, {
+      employees: employees.map((emp, i) => ({ ...emp, wage: wages[i] })),
+      year,
+      month,
+      periodCount,
+      scenario,
+    });
+  };
+
+  const baseline = await simulate(employees.map((emp) => emp.wage));
+  const baselineCost = baseline.summary.totalYearlyCost;
+
+  // Everyone must stay above the highest minimum wage in the window
+  const { monthlyParams } = baseline.scenarioApplied;
+  const grossFloor = Math.max(...monthlyParams.map((p) => p.minWage));
+  const netFloor = Math.max(...monthlyParams.map((p) => p.minWageNet));
+
+  const bounds: WageBounds[] = employees.map((emp) => {
+    const floor = getMinWageFloor(
+      emp.calculationType,
+      { minWage: grossFloor, minWageNet: netFloor },
+      emp.wagePeriod
+    );
+    let maxPercent = rules.maxPercent;
+    if (rules.topEarnerCap && emp.wage >= rules.topEarnerCap.threshold) {
+      maxPercent = Math.min(
+        maxPercent ?? Infinity,
+        rules.topEarnerCap.maxPercent
+      );
+    }
+
+    const minPercentWage = emp.wage * (1 + minPercent / 100);
+    // The legal minimum overrides any cap
+    const cap = Math.max(
+      maxPercent === undefined ? Infinity : emp.wage * (1 + maxPercent / 100),
+      floor
+    );
+    const mandatory = Math.min(Math.max(minPercentWage, floor), cap);
+    return { floor, mandatory, cap, minPercentWage };
+  });
+
+  // A single level drives the allocation, so cost grows with it: a multiple
+  // of the minimum wage when prioritising the lowest paid, otherwise a
+  // uniform raise percentage
+  const allocate = (level: number): number[] =>
+    employees.map((emp, i) => {
+      const { floor, mandatory, cap } = bounds[i];
+      const target = prioritizeLowestPaid
+        ? level * floor
+        : emp.wage * (1 + level / 100);
+      return roundWage(Math.min(Math.max(mandatory, target), cap));
+    });
+  const isSaturated = (wages: number[]) =>
+    wages.every((wage, i) => wage >= roundWage(bounds[i].cap));
+
+  const warnings: string[] = [];
+  let lowLevel = 0;
+  const mandatoryWages = allocate(lowLevel);
+  let best = { wages: mandatoryWages, result: await simulate(mandatoryWages) };
+
+  if (best.result.summary.totalYearlyCost - baselineCost > pool) {
+    warnings.push(
+      "Mandatory raises (minimum wage and minimum percentage) exceed the pool"
+    );
+  } else {
+    // Bracket the pool, then bisect on the simulated cost
+    let highLevel = prioritizeLowestPaid
+      ? Math.max(...employees.map((emp, i) => emp.wage / bounds[i].floor), 1)
+      : Math.max(minPercent, 1);
+    let high: { wages: number[]; result: SimulateBudgetResult } | undefined;
+
+    while (!high && iterations < MAX_ITERATIONS) {
+      const wages = allocate(highLevel);
+      const result = await simulate(wages);
+      if (result.summary.totalYearlyCost - baselineCost > pool) {
+        high = { wages, result };
+      } else {
+        best = { wages, result };
+        lowLevel = highLevel;
+        if (isSaturated(wages)) {
+          warnings.push("Every employee reached their cap before the pool ran out");
+          break;
+        }
+        highLevel *= 2;
+      }
+    }
+
+    while (
+      high &&
+      highLevel - lowLevel > MIN_LEVEL_STEP &&
+      pool - (best.result.summary.totalYearlyCost - baselineCost) > tolerance &&
+      iterations < MAX_ITERATIONS
+    ) {
+      const level = (lowLevel + highLevel) / 2;
+      const wages = allocate(level);
+      if (wages.every((wage, i) => wage === best.wages[i])) {
+        // Same allocation at kuruş precision, no need to simulate it
+        lowLevel = level;
+        continue;
+      }
+      const result = await simulate(wages);
+      if (result.summary.totalYearlyCost - baselineCost > pool) {
+        highLevel = level;
+      } else {
+        lowLevel = level;
+        best = { wages, result };
+      }
+    }
+  }
+
+  const allocatedCost = best.result.summary.totalYearlyCost - baselineCost;
+  const allocations: RaiseAllocation[] = employees.map((emp, i) => {
+    const newWage = best.wages[i];
+    const { floor, cap, minPercentWage } = bounds[i];
+    let limitedBy: RaiseAllocation["limitedBy"];
+    if (newWage >= roundWage(cap) && cap > floor) {
+      limitedBy = "cap";
+    } else if (newWage <= roundWage(floor) && floor > minPercentWage) {
+      limitedBy = "minWage";
+    } else if (newWage <= roundWage(minPercentWage) && minPercent > 0) {
+      limitedBy = "minPercent";
+    }
+
+    return {
+      name: emp.name,
+      calculationType: emp.calculationType,
+      currentWage: emp.wage,
+      newWage,
+      raiseAmount: newWage - emp.wage,
+      raisePercent: ((newWage - emp.wage) / emp.wage) * 100,
+      costIncrease:
+        best.result.employees[i].yearlyCost - baseline.employees[i].yearlyCost,
+      ...(limitedBy && { limitedBy }),
+    };
+  });
+
+  return {
+    pool,
+    allocatedCost,
+    unallocated: pool - allocatedCost,
+    withinBudget: allocatedCost <= pool,
+    strategy: prioritizeLowestPaid ? "lowestPaidFirst" : "proportional",
+    minWageFloor: { gross: grossFloor, net: netFloor },
+    baselineCost,
+    newCost: best.result.summary.totalYearlyCost,
+    iterations,
+    employees: allocations,
+    ...(warnings.length > 0 && { warnings }),
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Attendance and sick leave for MCP server
+ */
+
+import type { Attendance, PeriodAttendance } from "../types/index.js";
+import {
+  SICKNESS_ALLOWANCE_RATE,
+  SICKNESS_WAITING_DAYS,
+} from "../types/index.js";
+import { ValidationError } from "../errors.js";
+
+/**
+ * Absences that apply to a period, added up; undefined without any
+ */
+export function attendanceForMonth(
+  attendance: Attendance[],
+  year: number,
+  month: number
+): Attendance | undefined {
+  const entries = attendance.filter(
+    (entry) =>
+      (entry.year === undefined || entry.year === year) &&
+      (entry.month === undefined || entry.month === month)
+  );
+  if (entries.length === 0) {
+    return undefined;
+  }
+
+  return entries.reduce(
+    (total, entry) => ({
+      unpaidLeaveDays: (total.unpaidLeaveDays ?? 0) + (entry.unpaidLeaveDays ?? 0),
+      sickLeaveDays: (total.sickLeaveDays ?? 0) + (entry.sickLeaveDays ?? 0),
+      missingDays: (total.missingDays ?? 0) + (entry.missingDays ?? 0),
+      sickPayOffset: total.sickPayOffset || entry.sickPayOffset,
+    }),
+    {}
+  );
+}
+
+/**
+ * SSI days and paid days left after a period's absences. Sick days are
+ * still paid by the employer when it offsets the allowance.
+ */
+export function applyAttendance(
+  absence: Attendance,
+  workedDays: number
+): Omit<PeriodAttendance, "sicknessAllowance"> {
+  const {
+    unpaidLeaveDays = 0,
+    sickLeaveDays = 0,
+    missingDays = 0,
+    sickPayOffset = false,
+  } = absence;
+  const absentDays = unpaidLeaveDays + sickLeaveDays + missingDays;
+  if (absentDays > workedDays) {
+    throw new ValidationError(
+      `${absentDays} days of absence exceed the ${workedDays} days in the period`
+    );
+  }
+
+  return {
+    unpaidLeaveDays,
+    sickLeaveDays,
+    missingDays,
+    ssiDays: workedDays - absentDays,
+    paidDays:
+      workedDays - unpaidLeaveDays - missingDays - (sickPayOffset ? 0 : sickLeaveDays),
+    sickPayOffset,
+  };
+}
+
+/**
+ * SGK temporary incapacity allowance: two thirds of the daily gross wage,
+ * capped at the daily SSI upper limit, from the third sick day of the
+ * period
+ */
+export function calculateSicknessAllowance(
+  sickLeaveDays: number,
+  dailyGross: number,
+  dailySSIUpperLimit: number
+): number {
+  const paidDays = Math.max(0, sickLeaveDays - SICKNESS_WAITING_DAYS);
+  return (
+    paidDays *
+    Math.min(dailyGross, dailySSIUpperLimit) *
+    SICKNESS_ALLOWANCE_RATE
+  );
+}
@@ -0,0 +1,219 @@
+/**
+ * Fringe benefit exemptions for MCP server
+ */
+
+import type {
+  BenefitPortion,
+  BenefitType,
+  CustomParams,
+  ExtraPayment,
+  PeriodBenefits,
+} from "../types/index.js";
+import {
+  HEALTH_INCOME_TAX_EXEMPTION_RATE,
+  HEALTH_PENSION_SSI_EXEMPTION_RATE,
+  MEAL_SSI_EXEMPTION_RATE,
+  SSI_MONTH_DAYS,
+  SSI_RATES,
+} from "../types/index.js";
+import { resolveBenefitExemptions, toPeriodDate } from "./registry.js";
+import { incrementalTax } from "./tax.js";
+
+/**
+ * Extra payment that is a fringe benefit
+ */
+export type BenefitPayment = ExtraPayment & { benefitType: BenefitType };
+
+/**
+ * Period figures the benefit exemptions and taxes depend on
+ */
+export interface BenefitContext {
+  year: number;
+  month: number;
+  workedDays: number;
+  /** Gross wage before benefits */
+  grossWage: number;
+  minWage: number;
+  ssiBase: number;
+  ssiLowerLimit: number;
+  ssiUpperLimit: number;
+  stampTaxRatio: number;
+  incomeTaxBrackets: Array<{ limit: number; rate: number }>;
+  /** Cumulative income tax base including this period's wage */
+  cumulativeIncomeTaxBase: number;
+  customParams?: CustomParams;
+}
+
+/**
+ * Benefits with the SSI premiums and taxes due on their taxable portions
+ */
+export interface AppliedBenefits {
+  benefits: PeriodBenefits;
+  ssiBase: number;
+  employeeSSI: number;
+  employeeUnemployment: number;
+  employerSSI: number;
+  employerUnemployment: number;
+  incomeTaxBase: number;
+  incomeTax: number;
+  stampTax: number;
+}
+
+/**
+ * Benefit figures for a period without benefits
+ */
+export const NO_BENEFITS: AppliedBenefits = {
+  benefits: {
+    total: 0,
+    incomeTaxExempt: 0,
+    incomeTaxable: 0,
+    ssiExempt: 0,
+    ssiLiable: 0,
+    items: [],
+  },
+  ssiBase: 0,
+  employeeSSI: 0,
+  employeeUnemployment: 0,
+  employerSSI: 0,
+  employerUnemployment: 0,
+  incomeTaxBase: 0,
+  incomeTax: 0,
+  stampTax: 0,
+};
+
+/**
+ * Split benefits into their exempt portions. Meal and transport limits are
+ * per day worked; private health premiums are income tax exempt up to 15%
+ * of the gross wage and the minimum wage; health and pension contributions
+ * share an SSI exemption of 30% of the minimum wage. Each limit is used up
+ * in the order the benefits are listed. Warnings flag registered limits
+ * that were extrapolated.
+ */
+function splitBenefits(
+  benefits: BenefitPayment[],
+  context: BenefitContext
+): { items: BenefitPortion[]; warnings: string[] } {
+  const { year, month, workedDays, customParams } = context;
+  let warnings: string[] = [];
+  const registered = () => {
+    const resolved = resolveBenefitExemptions(toPeriodDate(year, month));
+    warnings = resolved.warnings;
+    return resolved.limits;
+  };
+
+  let mealIncomeTax: number | undefined;
+  let mealSSI =
+    (context.minWage / SSI_MONTH_DAYS) * MEAL_SSI_EXEMPTION_RATE * workedDays;
+  let transportIncomeTax: number | undefined;
+  let healthIncomeTax = Math.min(
+    context.grossWage * HEALTH_INCOME_TAX_EXEMPTION_RATE,
+    context.minWage
+  );
+  let healthPensionSSI = context.minWage * HEALTH_PENSION_SSI_EXEMPTION_RATE;
+
+  const items = benefits.map(({ name, amount, benefitType }) => {
+    let incomeTaxExempt = 0;
+    let ssiExempt = 0;
+
+    switch (benefitType) {
+      case "Meal":
+        mealIncomeTax ??=
+          (customParams?.mealExemptionDaily ?? registered().mealDaily) * workedDays;
+        incomeTaxExempt = Math.min(amount, mealIncomeTax);
+        ssiExempt = Math.min(amount, mealSSI);
+        mealIncomeTax -= incomeTaxExempt;
+        mealSSI -= ssiExempt;
+        break;
+      case "Transport":
+        // Transport allowance is income tax exempt but subject to SSI
+        transportIncomeTax ??=
+          (customParams?.transportExemptionDaily ?? registered().transportDaily) *
+          workedDays;
+        incomeTaxExempt = Math.min(amount, transportIncomeTax);
+        transportIncomeTax -= incomeTaxExempt;
+        break;
+      case "PrivateHealth":
+        incomeTaxExempt = Math.min(amount, healthIncomeTax);
+        ssiExempt = Math.min(amount, healthPensionSSI);
+        healthIncomeTax -= incomeTaxExempt;
+        healthPensionSSI -= ssiExempt;
+        break;
+      case "PrivatePension":
+        // Employer pension contributions are taxed as wages
+        ssiExempt = Math.min(amount, healthPensionSSI);
+        healthPensionSSI -= ssiExempt;
+        break;
+    }
+
+    return {
+      name,
+      benefitType,
+      amount,
+      incomeTaxExempt,
+      ssiExempt,
+    };
+  });
+  return { items, warnings };
+}
+
+/**
+ * Premiums and taxes on the taxable portions of a period's benefits, on
+ * top of the wage's SSI base and cumulative income tax base. The employee
+ * premiums are deducted from the income tax base as for wages. Premiums
+ * are at the S4A rates; other SSI types take no benefits.
+ */
+export function applyBenefits(
+  benefits: BenefitPayment[],
+  context: BenefitContext
+): AppliedBenefits {
+  const { items, warnings } = splitBenefits(benefits, context);
+  const sum = (pick: (item: BenefitPortion) => number) =>
+    items.reduce((total, item) => total + pick(item), 0);
+
+  const total = sum((item) => item.amount);
+  const incomeTaxExempt = sum((item) => item.incomeTaxExempt);
+  const ssiExempt = sum((item) => item.ssiExempt);
+  const incomeTaxable = total - incomeTaxExempt;
+  const ssiLiable = total - ssiExempt;
+
+  // Liable benefits first fill any gap to the SSI lower limit, and nothing
+  // is due above the upper limit
+  const { grossWage, ssiBase, ssiLowerLimit, ssiUpperLimit } = context;
+  const ssiBaseIncrease = Math.max(
+    0,
+    Math.min(
+      ssiUpperLimit,
+      ssiBase +
+        Math.max(grossWage + ssiLiable, ssiLowerLimit) -
+        Math.max(grossWage, ssiLowerLimit)
+    ) - ssiBase
+  );
+
+  const employeeSSI = ssiBaseIncrease * SSI_RATES.employee;
+  const employeeUnemployment = ssiBaseIncrease * SSI_RATES.employeeUnemployment;
+  const incomeTaxBase = incomeTaxable - employeeSSI - employeeUnemployment;
+
+  return {
+    benefits: {
+      total,
+      incomeTaxExempt,
+      incomeTaxable,
+      ssiExempt,
+      ssiLiable,
+      items,
+      ...(warnings.length > 0 && { warnings }),
+    },
+    ssiBase: ssiBaseIncrease,
+    employeeSSI,
+    employeeUnemployment,
+    employerSSI: ssiBaseIncrease * SSI_RATES.employer,
+    employerUnemployment: ssiBaseIncrease * SSI_RATES.employerUnemployment,
+    incomeTaxBase,
+    incomeTax: incrementalTax(
+      context.cumulativeIncomeTaxBase,
+      incomeTaxBase,
+      context.incomeTaxBrackets
+    ),
+    stampTax: incomeTaxable * context.stampTaxRatio,
+  };
+}
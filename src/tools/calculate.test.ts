@@ -0,0 +1,214 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  LocalPayrollEngine,
+  type PayrollCalculator,
+  type PayrollResultData,
+} from "../engine/index.js";
+import { calculateBulkPayroll, calculatePayroll } from "./calculate.js";
+import type { CalculatePayrollInput, CustomParams } from "../types/index.js";
+
+const base: CalculatePayrollInput = {
+  name: "Matrix",
+  wage: 120000,
+  calculationType: "Gross",
+  year: 2025,
+  month: 6,
+};
+
+const mealAndTransport: Partial<CalculatePayrollInput> = {
+  extraPayments: [
+    { name: "Meal card", amount: 8000, type: "Gross", benefitType: "Meal" },
+    { name: "Transport", amount: 5000, type: "Gross", benefitType: "Transport" },
+  ],
+};
+
+/**
+ * One case per custom parameter, on an input where the parameter binds
+ * (e.g. a wage under the SSI lower limit for ssiLowerLimit)
+ */
+const cases: Array<{
+  param: keyof CustomParams;
+  customParams: CustomParams;
+  input?: Partial<CalculatePayrollInput>;
+}> = [
+  { param: "minWage", customParams: { minWage: 30000 } },
+  { param: "minWageNet", customParams: { minWageNet: 25000 } },
+  { param: "ssiLowerLimit", customParams: { ssiLowerLimit: 40000 }, input: { wage: 30000 } },
+  { param: "ssiUpperLimit", customParams: { ssiUpperLimit: 100000 } },
+  { param: "stampTaxRatio", customParams: { stampTaxRatio: 0.01 } },
+  {
+    param: "incomeTaxLimits",
+    customParams: {
+      incomeTaxLimits: [
+        { limit: 100000, rate: 0.2 },
+        { limit: 1e12, rate: 0.4 },
+      ],
+    },
+  },
+  { param: "mealExemptionDaily", customParams: { mealExemptionDaily: 100 }, input: mealAndTransport },
+  { param: "transportExemptionDaily", customParams: { transportExemptionDaily: 50 }, input: mealAndTransport },
+];
+
+describe("calculatePayroll custom parameters", () => {
+  const client = new LocalPayrollEngine();
+
+  it("covers every custom parameter", () => {
+    const params: Array<keyof CustomParams> = [
+      "minWage",
+      "minWageNet",
+      "ssiLowerLimit",
+      "ssiUpperLimit",
+      "stampTaxRatio",
+      "incomeTaxLimits",
+      "mealExemptionDaily",
+      "transportExemptionDaily",
+    ];
+    assert.deepEqual(cases.map((c) => c.param), params);
+  });
+
+  for (const { param, customParams, input } of cases) {
+    for (const workedDays of [undefined, 15]) {
+      const label = workedDays ? `${param} in a prorated month` : param;
+
+      it(`${label} changes the result`, async () => {
+        const run = { ...base, ...input, workedDays };
+        const defaults = await calculatePayroll(client, run);
+        const custom = await calculatePayroll(client, { ...run, customParams });
+
+        assert.notDeepEqual(
+          [custom.totalCost, custom.totalNet],
+          [defaults.totalCost, defaults.totalNet]
+        );
+      });
+    }
+  }
+});
+
+/**
+ * Engine shaped like the remote API: lump SSI premiums without the
+ * unemployment split, the SSI base or the exemptions
+ */
+const lumpPremiumEngine: PayrollCalculator = {
+  async calculate(model) {
+    const [year, month] = model.calcDate.split("-").map(Number);
+    const gross = model.wageAmount ?? 0;
+    const workerPremium = gross * 0.15;
+    const employerPremium = gross * 0.2275;
+    const payrollResult: PayrollResultData = {
+      totalGross: gross,
+      totalNet: gross - workerPremium,
+      totalIncomeTax: 0,
+      totalStampTax: 0,
+      totalSSIWorkerPrem: workerPremium,
+      totalSSIEmployerPrem: employerPremium,
+      totalIncomeTaxBase: gross - workerPremium,
+      totalMinWageIncomeTaxExemptionBase: 0,
+    };
+    return {
+      payrolls: [
+        { year, month, totalCost: gross + employerPremium, payrollResult },
+      ],
+    };
+  },
+};
+
+/**
+ * Assert two amounts are equal up to floating point rounding
+ */
+function assertAmount(actual: number | undefined, expected: number): void {
+  assert.ok(
+    actual !== undefined && Math.abs(actual - expected) < 1e-6,
+    `expected ${expected}, got ${actual}`
+  );
+}
+
+describe("cost breakdown without reported unemployment insurance", () => {
+  const employee = {
+    wage: 50000,
+    calculationType: "Gross",
+    year: 2025,
+    month: 1,
+  } as const;
+
+  it("derives it only for S4A employees", async () => {
+    const s4a = await calculatePayroll(lumpPremiumEngine, {
+      ...employee,
+      name: "S4A",
+    });
+    const s4b = await calculatePayroll(lumpPremiumEngine, {
+      ...employee,
+      name: "S4B",
+      ssiType: "S4B",
+    });
+    const [s4aBreakdown, s4bBreakdown] = [s4a, s4b].map(
+      (result) => result.periods[0].costBreakdown
+    );
+
+    assertAmount(s4aBreakdown.employeeUnemploymentInsurance, 500);
+    assertAmount(s4aBreakdown.employerUnemploymentInsurance, 1000);
+    assert.equal(s4bBreakdown.employeeUnemploymentInsurance, undefined);
+    assert.equal(s4bBreakdown.employerUnemploymentInsurance, undefined);
+    assertAmount(s4bBreakdown.employerSSIPremium, 50000 * 0.2275);
+  });
+
+  it("keeps it in the premiums when summing mixed SSI types", async () => {
+    const result = await calculateBulkPayroll(lumpPremiumEngine, {
+      employees: [
+        { name: "S4A", wage: 50000, calculationType: "Gross" },
+        { name: "S4B", wage: 50000, calculationType: "Gross", ssiType: "S4B" },
+      ],
+      year: 2025,
+      month: 1,
+    });
+    const { costBreakdown, totalYearlyCost } = result.summary;
+
+    assert.equal(costBreakdown.employerUnemploymentInsurance, undefined);
+    assertAmount(
+      costBreakdown.grossWage + costBreakdown.employerSSIPremium,
+      totalYearlyCost
+    );
+  });
+});
+
+describe("calculatePayroll partial months", () => {
+  const client = new LocalPayrollEngine();
+  const halfMonth = { ...base, workedDays: 15 };
+  // 2025 values for 15 of 30 SSI days
+  const ssiLowerLimit = 26005.5 / 2;
+  const ssiUpperLimit = 195041.4 / 2;
+  const minWage = 26005.5 / 2;
+
+  async function halfMonthBreakdown(wage: number) {
+    const result = await calculatePayroll(client, { ...halfMonth, wage });
+    return result.periods[0].costBreakdown;
+  }
+
+  it("caps the SSI base at the ceiling for the SSI days", async () => {
+    const breakdown = await halfMonthBreakdown(400000);
+
+    assertAmount(breakdown.grossWage, 200000);
+    assertAmount(
+      breakdown.employeeSSIPremium + (breakdown.employeeUnemploymentInsurance ?? 0),
+      ssiUpperLimit * 0.15
+    );
+  });
+
+  it("raises the SSI base to the floor for the SSI days", async () => {
+    const breakdown = await halfMonthBreakdown(20000);
+
+    assertAmount(breakdown.grossWage, 10000);
+    assertAmount(
+      breakdown.employeeSSIPremium + (breakdown.employeeUnemploymentInsurance ?? 0),
+      ssiLowerLimit * 0.15
+    );
+  });
+
+  it("exempts the minimum wage for the days worked", async () => {
+    const breakdown = await halfMonthBreakdown(400000);
+
+    assertAmount(breakdown.incomeTaxExemption, minWage * 0.85 * 0.15);
+    assertAmount(breakdown.stampTaxExemption, minWage * 0.00759);
+  });
+});
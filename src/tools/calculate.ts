@@ -3,7 +3,6 @@
  */
 
 import {
-  PayrollaClient,
   SSIType,
   CalculationType,
   PaymentPeriodType,
@@ -17,9 +16,35 @@ import type {
   CalculatePayrollResult,
   CalculateBulkPayrollInput,
   CalculateBulkPayrollResult,
+  BulkEmployeeResult,
   PeriodResult,
   CustomParams,
+  BaseReset,
+  CostBreakdown,
+  MinWageViolation,
+  OvertimePay,
+  PeriodAttendance,
+  WagePeriod,
 } from "../types/index.js";
+import type { PayrollCalculator, PayrollResultData } from "../engine/index.js";
+import {
+  PayrollaError,
+  ValidationError,
+  classifyError,
+  type PayrollaErrorDetails,
+} from "../errors.js";
+import { checkMinWage, resolveMinWages, summarizeCompliance } from "./compliance.js";
+import { getRegisteredYears, resolveParams } from "./registry.js";
+import { calculateIncentive, sumIncentiveSavings } from "./incentives.js";
+import { applyBenefits, NO_BENEFITS, type BenefitPayment } from "./benefits.js";
+import { applyDeductions } from "./deductions.js";
+import { calculateOvertime, overtimeForMonth } from "./overtime.js";
+import {
+  applyAttendance,
+  attendanceForMonth,
+  calculateSicknessAllowance,
+} from "./attendance.js";
+import { SSI_DAY_HOURS, SSI_MONTH_DAYS, SSI_RATES } from "../types/index.js";
 
 /**
  * Map string SSI type to enum
@@ -72,6 +97,7 @@ function buildCustomGlobalParams(customParams?: CustomParams) {
 
   return {
     minWage: customParams.minWage,
+    minWageNet: customParams.minWageNet,
     ssi_LowerLimit: customParams.ssiLowerLimit,
     ssi_UpperLimit: customParams.ssiUpperLimit,
     stampTaxRatio: customParams.stampTaxRatio,
@@ -79,11 +105,259 @@ function buildCustomGlobalParams(customParams?: CustomParams) {
   };
 }
 
+/**
+ * SSI base of a payroll result. Without a reported base it follows from
+ * the employee premium, which includes unemployment insurance unless
+ * reported separately. SSI_RATES only hold for S4A employees, so the base
+ * of other SSI types is unknown unless the engine reports it.
+ */
+function ssiBaseOf(
+  pr: PayrollResultData,
+  ssiType: SSIType
+): number | undefined {
+  if (pr.totalSSIBase !== undefined) {
+    return pr.totalSSIBase;
+  }
+  if (ssiType !== SSIType.S4A) {
+    return undefined;
+  }
+  return pr.totalSSIWorkerUnempPrem !== undefined
+    ? (pr.totalSSIWorkerPrem - pr.totalSSIWorkerUnempPrem) / SSI_RATES.employee
+    : pr.totalSSIWorkerPrem /
+        (SSI_RATES.employee + SSI_RATES.employeeUnemployment);
+}
+
+/**
+ * Split a payroll result into its cost components. Unemployment insurance
+ * the engine does not report is taken out of the lump SSI premiums at the
+ * S4A rates; for other SSI types it stays in the premiums and is left out,
+ * as are unreported exemptions.
+ */
+function toCostBreakdown(
+  pr: PayrollResultData,
+  ssiType: SSIType
+): CostBreakdown {
+  const ssiBase = ssiBaseOf(pr, ssiType);
+  const employerUnemployment =
+    pr.totalSSIEmployerUnempPrem ??
+    (ssiBase !== undefined
+      ? ssiBase * SSI_RATES.employerUnemployment
+      : undefined);
+  const employeeUnemployment =
+    pr.totalSSIWorkerUnempPrem ??
+    (ssiBase !== undefined
+      ? ssiBase * SSI_RATES.employeeUnemployment
+      : undefined);
+  return {
+    grossWage: pr.totalGross,
+    employerSSIPremium: pr.totalSSIEmployerPrem - (employerUnemployment ?? 0),
+    ...(employerUnemployment !== undefined && {
+      employerUnemploymentInsurance: employerUnemployment,
+    }),
+    ssiDiscount: pr.totalSSIEmployerDiscount ?? 0,
+    sicknessAllowanceOffset: 0,
+    employeeSSIPremium: pr.totalSSIWorkerPrem - (employeeUnemployment ?? 0),
+    ...(employeeUnemployment !== undefined && {
+      employeeUnemploymentInsurance: employeeUnemployment,
+    }),
+    ...(pr.totalIncomeTaxExemption !== undefined && {
+      incomeTaxExemption: pr.totalIncomeTaxExemption,
+    }),
+    ...(pr.totalStampTaxExemption !== undefined && {
+      stampTaxExemption: pr.totalStampTaxExemption,
+    }),
+  };
+}
+
+/**
+ * Premium that holds the unemployment insurance of a breakdown which
+ * does not split it out
+ */
+const UNEMPLOYMENT_PREMIUMS = {
+  employerUnemploymentInsurance: "employerSSIPremium",
+  employeeUnemploymentInsurance: "employeeSSIPremium",
+} as const;
+
+/**
+ * Add up cost breakdowns, e.g. across periods or employees. A component
+ * missing from any of them is left out of the total; unemployment
+ * insurance then stays in the SSI premiums, as in the breakdowns that
+ * lack it.
+ */
+export function sumCostBreakdowns(breakdowns: CostBreakdown[]): CostBreakdown {
+  const total: CostBreakdown = {
+    grossWage: 0,
+    employerSSIPremium: 0,
+    employerUnemploymentInsurance: 0,
+    ssiDiscount: 0,
+    sicknessAllowanceOffset: 0,
+    employeeSSIPremium: 0,
+    employeeUnemploymentInsurance: 0,
+    incomeTaxExemption: 0,
+    stampTaxExemption: 0,
+  };
+  const keys = Object.keys(total) as Array<keyof CostBreakdown>;
+  for (const breakdown of breakdowns) {
+    for (const key of keys) {
+      total[key] = (total[key] ?? 0) + (breakdown[key] ?? 0);
+    }
+  }
+  for (const key of keys) {
+    if (breakdowns.some((breakdown) => breakdown[key] === undefined)) {
+      if (key in UNEMPLOYMENT_PREMIUMS) {
+        const premium =
+          UNEMPLOYMENT_PREMIUMS[key as keyof typeof UNEMPLOYMENT_PREMIUMS];
+        total[premium] += total[key] ?? 0;
+      }
+      delete total[key];
+    }
+  }
+  return total;
+}
+
+/**
+ * Wage amount and SSI days for a month. Monthly wages are prorated to the
+ * days worked; daily and hourly wages are multiplied by the days or hours
+ * worked, and hours count as SSI days at 7.5 hours a day unless the days
+ * are given.
+ */
+function resolvePeriodWage(
+  wage: number,
+  wagePeriod: WagePeriod,
+  workedDays: number | undefined,
+  workedHours: number | undefined
+): { amount: number; ssiDays: number } {
+  if (workedHours !== undefined && wagePeriod !== "Hourly") {
+    throw new ValidationError("Worked hours only apply to hourly wages");
+  }
+  if (wagePeriod === "Daily" && workedDays === undefined) {
+    throw new ValidationError("Daily wages need the number of days worked");
+  }
+  if (wagePeriod === "Hourly" && (workedHours === undefined || workedHours <= 0)) {
+    throw new ValidationError("Hourly wages need a positive number of hours worked");
+  }
+
+  const ssiDays =
+    workedDays ??
+    (workedHours !== undefined
+      ? Math.min(Math.ceil(workedHours / SSI_DAY_HOURS), SSI_MONTH_DAYS)
+      : SSI_MONTH_DAYS);
+  if (ssiDays <= 0 || ssiDays > SSI_MONTH_DAYS) {
+    throw new ValidationError(`Worked days must be between 1 and ${SSI_MONTH_DAYS}`);
+  }
+
+  switch (wagePeriod) {
+    case "Daily":
+      return { amount: wage * ssiDays, ssiDays };
+    case "Hourly":
+      return { amount: wage * workedHours!, ssiDays };
+    case "Monthly":
+      return { amount: (wage * ssiDays) / SSI_MONTH_DAYS, ssiDays };
+  }
+}
+
+/**
+ * Scale a period's SSI limits and minimum wage exemption to the SSI days;
+ * SSI counts a full month as 30 days
+ *
+ * The period is still sent with PeriodLengthType.Month: every period goes
+ * to the engine as its own one-month model, so the scaled values apply to
+ * that month alone. The SSI floor and ceiling are daily amounts times the
+ * SSI days, and the minimum wage exemption covers the minimum wage for the
+ * days worked, so a month with limits scaled by days/30 is taxed exactly
+ * like a day-length period of the same days.
+ */
+function prorateModel(
+  model: WageCalculationModel,
+  customParams: CustomParams | undefined,
+  year: number,
+  month: number,
+  workedDays: number
+): WageCalculationModel {
+  const ratio = workedDays / SSI_MONTH_DAYS;
+  const defaults = resolveParams(year, month).params;
+
+  return {
+    ...model,
+    calculationParams: {
+      ...model.calculationParams,
+      customGlobalParams: buildCustomGlobalParams({
+        ...customParams,
+        minWage: (customParams?.minWage ?? defaults.minWage) * ratio,
+        ...(customParams?.minWageNet !== undefined && {
+          minWageNet: customParams.minWageNet * ratio,
+        }),
+        ssiLowerLimit:
+          (customParams?.ssiLowerLimit ?? defaults.ssiLowerLimit) * ratio,
+        ssiUpperLimit:
+          (customParams?.ssiUpperLimit ?? defaults.ssiUpperLimit) * ratio,
+      }),
+    },
+  };
+}
+
+/**
+ * Bases carried from one period into the next
+ */
+interface CarriedBases {
+  year: number;
+  incomeTaxBase: number;
+  minWageIncomeTaxBase: number;
+  transferredBase1: number;
+  transferredBase2: number;
+}
+
+/**
+ * Part of the two-month-old transferred SSI base a period leaves unused,
+ * which expires. Transfers fill the SSI base above the wage's own base,
+ * oldest first.
+ */
+function expiredTransferredBase(
+  transferredBase2: number,
+  ssiBase: number,
+  ownBase: number
+): number {
+  const used = Math.max(0, ssiBase - ownBase);
+  return Math.max(0, transferredBase2 - used);
+}
+
+/**
+ * Roll carried bases into the period being calculated.
+ * Income tax bases are yearly and restart on 1 January. Transferred SSI
+ * bases cross the year boundary but can only be used for two months, so
+ * whatever the previous period left of a two-month-old base has expired.
+ */
+function rollBases(
+  bases: CarriedBases,
+  calcYear: number,
+  previousExpiredBase: number
+): { bases: CarriedBases; resets: BaseReset[] } {
+  const resets: BaseReset[] = [];
+  const next = { ...bases, year: calcYear };
+
+  if (calcYear !== bases.year) {
+    if (bases.incomeTaxBase !== 0) {
+      resets.push("cumulativeIncomeTaxBase");
+    }
+    if (bases.minWageIncomeTaxBase !== 0) {
+      resets.push("cumulativeMinWageIncomeTaxBase");
+    }
+    next.incomeTaxBase = 0;
+    next.minWageIncomeTaxBase = 0;
+  }
+
+  if (previousExpiredBase > 0) {
+    resets.push("transferredSSIBase");
+  }
+
+  return { bases: next, resets };
+}
+
 /**
  * Calculate payroll for a single employee
  */
 export async function calculatePayroll(
-  client: PayrollaClient,
+  client: PayrollCalculator,
   input: CalculatePayrollInput
 ): Promise<CalculatePayrollResult> {
   const {
@@ -96,12 +370,50 @@ export async function calculatePayroll(
     periodCount = 1,
     extraPayments,
     customParams,
+    incentives,
     cumulativeIncomeTaxBase = 0,
     cumulativeMinWageIncomeTaxBase = 0,
+    basesYear = year,
     transferredSSIBase1 = 0,
     transferredSSIBase2 = 0,
+    wagePeriod = "Monthly",
+    workedHours,
+    overtime = [],
+    attendance = [],
+    deductions = [],
+    pensionAutoEnrolment,
   } = input;
 
+  const { amount: periodWage, ssiDays: workedDays } = resolvePeriodWage(
+    wage,
+    wagePeriod,
+    input.workedDays,
+    workedHours
+  );
+  const isPartialMonth = workedDays < SSI_MONTH_DAYS;
+  if (attendance.length > 0 && wagePeriod === "Hourly") {
+    throw new ValidationError(
+      "Attendance applies to monthly and daily wages; pass the hours actually worked for hourly wages"
+    );
+  }
+
+  for (const deduction of deductions) {
+    if (deduction.amount === undefined && deduction.type !== "Garnishment") {
+      throw new ValidationError(`Deduction "${deduction.name}" needs an amount`);
+    }
+  }
+
+  if (incentives && incentives.length > 0 && (ssiType ?? "S4A") !== "S4A") {
+    throw new ValidationError("SSI incentives only apply to S4A employees");
+  }
+  if (
+    extraPayments?.some((extra) => extra.benefitType) &&
+    (ssiType ?? "S4A") !== "S4A"
+  ) {
+    // Benefit premiums are calculated here at the S4A rates
+    throw new ValidationError("Benefits are only calculated for S4A employees");
+  }
+
   // Build payments array
   const payments: PaymentItem[] = [
     {
@@ -112,10 +424,21 @@ export async function calculatePayroll(
     },
   ];
 
-  // Add extra payments if any
+  // Add extra payments if any; benefits are applied on top of the engine's
+  // result so that their exempt portions stay out of the taxed amounts
+  const benefits: BenefitPayment[] = [];
   if (extraPayments && extraPayments.length > 0) {
     for (let i = 0; i < extraPayments.length; i++) {
       const extra = extraPayments[i];
+      if (extra.benefitType) {
+        if (extra.type !== "Gross") {
+          throw new ValidationError(
+            `Benefit "${extra.name}" must be the gross amount the employer pays`
+          );
+        }
+        benefits.push({ ...extra, benefitType: extra.benefitType });
+        continue;
+      }
       payments.push({
         paymentAmount: extra.amount,
         paymentName: extra.name,
@@ -136,7 +459,8 @@ export async function calculatePayroll(
     | "transferredSSIBase2"
     | "periodCount"
   > = {
-    wageAmount: wage,
+    // Daily and hourly wages are already turned into the month's amount
+    wageAmount: periodWage,
     ssiType: mapSSIType(ssiType),
     wageCalculationType: mapCalculationType(calculationType),
     wagePeriodType: PaymentPeriodType.Monthly,
@@ -150,72 +474,281 @@ export async function calculatePayroll(
 
   let totalCost = 0;
   let totalNet = 0;
+  let totalTakeHome = 0;
   let totalGross = 0;
   const periods: PeriodResult[] = [];
 
-  let incomeTaxBase = cumulativeIncomeTaxBase;
-  let minWageIncomeTaxBase = cumulativeMinWageIncomeTaxBase;
-  let transferredBase1 = transferredSSIBase1;
-  let transferredBase2 = transferredSSIBase2;
+  let bases: CarriedBases = {
+    year: basesYear,
+    incomeTaxBase: cumulativeIncomeTaxBase,
+    minWageIncomeTaxBase: cumulativeMinWageIncomeTaxBase,
+    transferredBase1: transferredSSIBase1,
+    transferredBase2: transferredSSIBase2,
+  };
+  let previousExpiredBase = 0;
+  let balances = deductions.map((deduction) => deduction.balance);
 
   for (let i = 0; i < periodCount; i++) {
     const calcDate = new Date(year, month - 1 + i, 1);
     const calcYear = calcDate.getFullYear();
     const calcMonth = calcDate.getMonth() + 1;
 
-    const model: WageCalculationModel = {
+    const rolled = rollBases(bases, calcYear, previousExpiredBase);
+    bases = rolled.bases;
+
+    const periodModel: WageCalculationModel = {
       ...baseModel,
       calcDate: `${calcYear}-${String(calcMonth).padStart(2, "0")}-01`,
-      cumulativeIncomeTaxBase: incomeTaxBase,
-      cumulativeMinWageIncomeTaxBase: minWageIncomeTaxBase,
-      transferredSSIBase1: transferredBase1,
-      transferredSSIBase2: transferredBase2,
+      cumulativeIncomeTaxBase: bases.incomeTaxBase,
+      cumulativeMinWageIncomeTaxBase: bases.minWageIncomeTaxBase,
+      transferredSSIBase1: bases.transferredBase1,
+      transferredSSIBase2: bases.transferredBase2,
       periodCount: 1,
     };
+    const fullModel = isPartialMonth
+      ? prorateModel(periodModel, customParams, calcYear, calcMonth, workedDays)
+      : periodModel;
+
+    // Absences reduce the SSI days, and the wage is paid for the days left
+    const absence = attendanceForMonth(attendance, calcYear, calcMonth);
+    const days = absence && applyAttendance(absence, workedDays);
+    const ssiDays = days?.ssiDays ?? workedDays;
+    let model = fullModel;
+    if (days) {
+      model = {
+        ...periodModel,
+        wageAmount: (periodWage * days.paidDays) / workedDays,
+      };
+      if (ssiDays < SSI_MONTH_DAYS) {
+        model = prorateModel(model, customParams, calcYear, calcMonth, ssiDays);
+      }
+    }
+
+    const context = { employee: name, year: calcYear, month: calcMonth };
+    const run = async (periodModel: WageCalculationModel) => {
+      let result;
+      try {
+        result = await client.calculate(periodModel);
+      } catch (error) {
+        throw classifyError(error).withContext(context);
+      }
+      const payroll = result.payrolls?.[0];
+
+      if (!payroll) {
+        throw new PayrollaError(
+          "upstream",
+          "Payrolla calculation returned no payroll data",
+          { context }
+        );
+      }
+      return payroll;
+    };
 
-    const result = await client.calculate(model);
-    const payroll = result.payrolls?.[0];
+    // Overtime and sick pay follow the gross wage of the full period, so a
+    // net wage is grossed up on its own first
+    let fullGross: number | undefined;
+    const regularGross = async () => {
+      fullGross ??=
+        calculationType === "Gross"
+          ? periodWage
+          : (await run({ ...fullModel, payments: [payments[0]] })).payrollResult
+              .totalGross;
+      return fullGross;
+    };
 
-    if (!payroll) {
-      throw new Error("Payrolla calculation returned no payroll data");
+    const overtimeHours = overtimeForMonth(overtime, calcYear, calcMonth);
+    let overtimePay: OvertimePay[] = [];
+    if (overtimeHours.length > 0) {
+      const paidHours = workedHours ?? workedDays * SSI_DAY_HOURS;
+      overtimePay = calculateOvertime(
+        overtimeHours,
+        (await regularGross()) / paidHours
+      );
+      model = {
+        ...model,
+        payments: [
+          ...payments,
+          ...overtimePay.map((pay, j) => ({
+            paymentAmount: pay.amount,
+            paymentName: `Overtime (${pay.type})`,
+            paymentType: PaymentType.Overtime,
+            paymentRef: `overtime_${j + 1}`,
+            calculationType: CalculationType.Gross,
+          })),
+        ],
+      };
     }
 
+    const payroll = await run(model);
+
     const pr = payroll.payrollResult;
-    totalCost += payroll.totalCost;
-    totalNet += pr.totalNet;
-    totalGross += pr.totalGross;
+    const costBreakdown = toCostBreakdown(pr, baseModel.ssiType);
+    const ssiBase = ssiBaseOf(pr, baseModel.ssiType);
+
+    // Only benefits, sick pay and expiring transfers need the defaults;
+    // years before the registry still calculate on the remote engine
+    // without them
+    const registered = () => resolveParams(calcYear, calcMonth).params;
+
+    // Without a known SSI base no expiry can be told apart
+    let expiredBase = 0;
+    if (bases.transferredBase2 > 0 && ssiBase !== undefined) {
+      // A wage below the SSI lower limit is raised to it before transfers
+      const ssiLowerLimit =
+        customParams?.ssiLowerLimit ??
+        (calcYear >= getRegisteredYears()[0] ? registered().ssiLowerLimit : 0);
+      expiredBase = expiredTransferredBase(
+        bases.transferredBase2,
+        ssiBase,
+        Math.max(pr.totalGross, (ssiLowerLimit * ssiDays) / SSI_MONTH_DAYS)
+      );
+    }
+    let benefit = NO_BENEFITS;
+    if (benefits.length > 0 && ssiBase !== undefined) {
+      const defaults = registered();
+      const ratio = ssiDays / SSI_MONTH_DAYS;
+      benefit = applyBenefits(benefits, {
+        year: calcYear,
+        month: calcMonth,
+        workedDays: ssiDays,
+        grossWage: pr.totalGross,
+        minWage: customParams?.minWage ?? defaults.minWage,
+        ssiBase,
+        ssiLowerLimit:
+          (customParams?.ssiLowerLimit ?? defaults.ssiLowerLimit) * ratio,
+        ssiUpperLimit:
+          (customParams?.ssiUpperLimit ?? defaults.ssiUpperLimit) * ratio,
+        stampTaxRatio: customParams?.stampTaxRatio ?? defaults.stampTaxRatio,
+        incomeTaxBrackets:
+          customParams?.incomeTaxLimits ?? defaults.incomeTaxBrackets,
+        cumulativeIncomeTaxBase: bases.incomeTaxBase + pr.totalIncomeTaxBase,
+        customParams,
+      });
+      costBreakdown.grossWage += benefit.benefits.total;
+      costBreakdown.employerSSIPremium += benefit.employerSSI;
+      costBreakdown.employerUnemploymentInsurance =
+        (costBreakdown.employerUnemploymentInsurance ?? 0) +
+        benefit.employerUnemployment;
+      costBreakdown.employeeSSIPremium += benefit.employeeSSI;
+      costBreakdown.employeeUnemploymentInsurance =
+        (costBreakdown.employeeUnemploymentInsurance ?? 0) +
+        benefit.employeeUnemployment;
+    }
+    const benefitEmployeeSSI = benefit.employeeSSI + benefit.employeeUnemployment;
+    const benefitEmployerSSI = benefit.employerSSI + benefit.employerUnemployment;
+    const periodSSIBase =
+      ssiBase !== undefined ? ssiBase + benefit.ssiBase : undefined;
 
-    const nextIncomeTaxBase = incomeTaxBase + pr.totalIncomeTaxBase;
-    const nextMinWageIncomeTaxBase = pr.totalMinWageIncomeTaxExemptionBase;
-    const nextTransferredBase1 = pr.transferredSSIBase1 ?? transferredBase1;
-    const nextTransferredBase2 = pr.transferredSSIBase2 ?? transferredBase2;
+    // Incentives are applied on top of the engine's result; they only
+    // apply to S4A employees, whose SSI base is always known
+    const incentive = calculateIncentive(
+      incentives,
+      payroll.year,
+      payroll.month,
+      periodSSIBase ?? 0,
+      costBreakdown.employerSSIPremium
+    );
+    const savings = incentive?.savings ?? 0;
+    costBreakdown.employerSSIPremium -= savings;
+    costBreakdown.ssiDiscount += savings;
+
+    // SGK pays the allowance to the employee, or to the employer when it
+    // keeps paying the wage during sick leave
+    let periodAttendance: PeriodAttendance | undefined;
+    if (days) {
+      const sicknessAllowance =
+        days.sickLeaveDays > 0
+          ? calculateSicknessAllowance(
+              days.sickLeaveDays,
+              (await regularGross()) / workedDays,
+              (customParams?.ssiUpperLimit ?? registered().ssiUpperLimit) /
+                SSI_MONTH_DAYS
+            )
+          : 0;
+      periodAttendance = { ...days, sicknessAllowance };
+      if (days.sickPayOffset) {
+        costBreakdown.sicknessAllowanceOffset = sicknessAllowance;
+      }
+    }
+
+    const grossWage = pr.totalGross + benefit.benefits.total;
+    const netWage =
+      pr.totalNet +
+      benefit.benefits.total -
+      benefitEmployeeSSI -
+      benefit.incomeTax -
+      benefit.stampTax;
+    const employerCost =
+      payroll.totalCost +
+      benefit.benefits.total +
+      benefitEmployerSSI -
+      savings -
+      costBreakdown.sicknessAllowanceOffset;
+
+    const periodDeductions = applyDeductions(
+      netWage,
+      periodSSIBase,
+      deductions,
+      pensionAutoEnrolment,
+      balances
+    );
+    balances = periodDeductions.balances;
+
+    totalCost += employerCost;
+    totalNet += netWage;
+    totalTakeHome += periodDeductions.takeHomePay;
+    totalGross += grossWage;
+
+    // When the API does not report transfers, age them locally:
+    // last month's base becomes two months old, the older one expires
+    const next: CarriedBases = {
+      year: calcYear,
+      incomeTaxBase:
+        bases.incomeTaxBase + pr.totalIncomeTaxBase + benefit.incomeTaxBase,
+      minWageIncomeTaxBase: pr.totalMinWageIncomeTaxExemptionBase,
+      transferredBase1: pr.transferredSSIBase1 ?? 0,
+      transferredBase2: pr.transferredSSIBase2 ?? bases.transferredBase1,
+    };
 
     periods.push({
       year: payroll.year,
       month: payroll.month,
-      grossWage: pr.totalGross,
-      netWage: pr.totalNet,
-      employerCost: payroll.totalCost,
-      incomeTax: pr.totalIncomeTax,
-      stampTax: pr.totalStampTax,
-      employeeSSI: pr.totalSSIWorkerPrem,
-      employerSSI: pr.totalSSIEmployerPrem,
-      cumulativeIncomeTaxBase: nextIncomeTaxBase,
-      cumulativeMinWageIncomeTaxBase: nextMinWageIncomeTaxBase,
-      transferredSSIBase1: nextTransferredBase1,
-      transferredSSIBase2: nextTransferredBase2,
+      grossWage,
+      netWage,
+      employerCost,
+      incomeTax: pr.totalIncomeTax + benefit.incomeTax,
+      stampTax: pr.totalStampTax + benefit.stampTax,
+      employeeSSI: pr.totalSSIWorkerPrem + benefitEmployeeSSI,
+      employerSSI: pr.totalSSIEmployerPrem + benefitEmployerSSI - savings,
+      cumulativeIncomeTaxBase: next.incomeTaxBase,
+      cumulativeMinWageIncomeTaxBase: next.minWageIncomeTaxBase,
+      transferredSSIBase1: next.transferredBase1,
+      transferredSSIBase2: next.transferredBase2,
+      ...((ssiDays < SSI_MONTH_DAYS || wagePeriod !== "Monthly") && {
+        workedDays: ssiDays,
+      }),
+      ...(workedHours !== undefined && { workedHours }),
+      ...(overtimePay.length > 0 && { overtime: overtimePay }),
+      ...(periodAttendance && { attendance: periodAttendance }),
+      takeHomePay: periodDeductions.takeHomePay,
+      ...(periodDeductions.deductions.length > 0 && {
+        deductions: periodDeductions.deductions,
+      }),
+      costBreakdown,
+      ...(benefits.length > 0 && { benefits: benefit.benefits }),
+      ...(incentive && { incentive }),
+      ...(rolled.resets.length > 0 && { resets: rolled.resets }),
     });
 
-    incomeTaxBase = nextIncomeTaxBase;
-    minWageIncomeTaxBase = nextMinWageIncomeTaxBase;
-    transferredBase1 = nextTransferredBase1;
-    transferredBase2 = nextTransferredBase2;
+    previousExpiredBase = expiredBase;
+    bases = next;
   }
 
   return {
     employee: name,
     totalCost,
     totalNet,
+    totalTakeHome,
     totalGross,
     periods,
   };
@@ -225,49 +758,107 @@ export async function calculatePayroll(
  * Calculate payroll for multiple employees with shared parameters
  */
 export async function calculateBulkPayroll(
-  client: PayrollaClient,
+  client: PayrollCalculator,
   input: CalculateBulkPayrollInput
 ): Promise<CalculateBulkPayrollResult> {
-  const { employees, year, month, periodCount = 1, customParams } = input;
+  const {
+    employees,
+    year,
+    month,
+    periodCount = 1,
+    customParams,
+    allowPartialResults = false,
+  } = input;
 
-  const employeeResults: Array<{
-    name: string;
-    totalCost: number;
-    totalNet: number;
-    totalGross: number;
-  }> = [];
+  // Employees are independent, so they run in parallel; the calculator
+  // limits how many requests are actually in flight
+  const settled = await Promise.allSettled(
+    employees.map((emp) =>
+      calculatePayroll(client, {
+        name: emp.name,
+        wage: emp.wage,
+        calculationType: emp.calculationType,
+        ssiType: emp.ssiType,
+        year,
+        month,
+        periodCount,
+        extraPayments: emp.extraPayments,
+        customParams,
+        incentives: emp.incentives,
+        wagePeriod: emp.wagePeriod,
+        workedDays: emp.workedDays,
+        workedHours: emp.workedHours,
+        overtime: emp.overtime,
+        attendance: emp.attendance,
+        deductions: emp.deductions,
+        pensionAutoEnrolment: emp.pensionAutoEnrolment,
+        cumulativeIncomeTaxBase: emp.cumulativeIncomeTaxBase,
+        cumulativeMinWageIncomeTaxBase: emp.cumulativeMinWageIncomeTaxBase,
+        transferredSSIBase1: emp.transferredSSIBase1,
+        transferredSSIBase2: emp.transferredSSIBase2,
+      })
+    )
+  );
+
+  const employeeResults: BulkEmployeeResult[] = [];
+  const failures: PayrollaErrorDetails[] = [];
+  const violations: MinWageViolation[] = [];
+  const periods: PeriodResult[] = [];
+  // Years before the registry have no known minimum wage to check against
+  const checkCompliance = year >= getRegisteredYears()[0];
 
   let totalYearlyCost = 0;
   let totalYearlyNet = 0;
+  let totalYearlyTakeHome = 0;
   let totalYearlyGross = 0;
 
-  // Calculate for each employee
-  for (const emp of employees) {
-    const result = await calculatePayroll(client, {
-      name: emp.name,
-      wage: emp.wage,
-      calculationType: emp.calculationType,
-      ssiType: emp.ssiType,
-      year,
-      month,
-      periodCount,
-      extraPayments: emp.extraPayments,
-      customParams,
-      cumulativeIncomeTaxBase: emp.cumulativeIncomeTaxBase,
-      cumulativeMinWageIncomeTaxBase: emp.cumulativeMinWageIncomeTaxBase,
-      transferredSSIBase1: emp.transferredSSIBase1,
-      transferredSSIBase2: emp.transferredSSIBase2,
-    });
+  // Aggregate in input order so totals are deterministic
+  for (let i = 0; i < settled.length; i++) {
+    const outcome = settled[i];
+    if (outcome.status === "rejected") {
+      const error = classifyError(outcome.reason).withContext({
+        employee: employees[i].name,
+      });
+      if (!allowPartialResults) {
+        throw error;
+      }
+      failures.push(error.toDetails());
+      continue;
+    }
+
+    const result = outcome.value;
+    if (checkCompliance) {
+      for (const period of result.periods) {
+        const violation = checkMinWage(
+          employees[i].name,
+          employees[i].calculationType,
+          employees[i].wage,
+          period.year,
+          period.month,
+          resolveMinWages(
+            resolveParams(period.year, period.month).params,
+            customParams
+          ),
+          employees[i].wagePeriod
+        );
+        if (violation) {
+          violations.push(violation);
+        }
+      }
+    }
 
+    periods.push(...result.periods);
     employeeResults.push({
       name: result.employee,
       totalCost: result.totalCost,
       totalNet: result.totalNet,
+      totalTakeHome: result.totalTakeHome,
       totalGross: result.totalGross,
     });
 
     totalYearlyCost += result.totalCost;
     totalYearlyNet += result.totalNet;
+    totalYearlyTakeHome += result.totalTakeHome;
     totalYearlyGross += result.totalGross;
   }
 
@@ -276,9 +867,15 @@ export async function calculateBulkPayroll(
       totalEmployees: employees.length,
       totalYearlyCost,
       totalYearlyNet,
+      totalYearlyTakeHome,
       totalYearlyGross,
       averageMonthlyCost: totalYearlyCost / periodCount,
+      costBreakdown: sumCostBreakdowns(periods.map((p) => p.costBreakdown)),
+      incentiveSavings: sumIncentiveSavings(periods),
+      ...(failures.length > 0 && { failedEmployees: failures.length }),
     },
     employees: employeeResults,
+    ...(failures.length > 0 && { failures }),
+    compliance: summarizeCompliance(violations),
   };
 }
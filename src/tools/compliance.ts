@@ -0,0 +1,110 @@
+/**
+ * Minimum wage compliance checks for MCP server
+ */
+
+import type {
+  MinWageCompliance,
+  MinWageViolation,
+  ParameterSet,
+  WagePeriod,
+} from "../types/index.js";
+import { SSI_DAY_HOURS, SSI_MONTH_DAYS } from "../types/index.js";
+
+/**
+ * Effective gross and net minimum wage for a month
+ */
+export interface MinWages {
+  minWage: number;
+  minWageNet: number;
+}
+
+/**
+ * Effective minimum wages given the month's defaults and any overrides.
+ * A custom gross minimum wage without a net one moves the net minimum wage
+ * proportionally.
+ */
+export function resolveMinWages(
+  defaults: ParameterSet,
+  overrides: { minWage?: number; minWageNet?: number } = {}
+): MinWages {
+  const minWage = overrides.minWage ?? defaults.minWage;
+  return {
+    minWage,
+    minWageNet:
+      overrides.minWageNet ??
+      Math.round(defaults.minWageNet * (minWage / defaults.minWage) * 100) / 100,
+  };
+}
+
+/**
+ * Convert a monthly amount to a daily or hourly one
+ */
+export function toWagePeriod(monthly: number, wagePeriod: WagePeriod): number {
+  switch (wagePeriod) {
+    case "Daily":
+      return monthly / SSI_MONTH_DAYS;
+    case "Hourly":
+      return monthly / (SSI_MONTH_DAYS * SSI_DAY_HOURS);
+    case "Monthly":
+      return monthly;
+  }
+}
+
+/**
+ * Minimum wage in the unit of the employee's wage
+ */
+export function getMinWageFloor(
+  calculationType: "Gross" | "Net",
+  minWages: MinWages,
+  wagePeriod: WagePeriod = "Monthly"
+): number {
+  return toWagePeriod(
+    calculationType === "Net" ? minWages.minWageNet : minWages.minWage,
+    wagePeriod
+  );
+}
+
+/**
+ * Flag a wage below the minimum wage for its period
+ */
+export function checkMinWage(
+  employee: string,
+  calculationType: "Gross" | "Net",
+  wage: number,
+  year: number,
+  month: number,
+  minWages: MinWages,
+  wagePeriod: WagePeriod = "Monthly"
+): MinWageViolation | undefined {
+  const minWage = getMinWageFloor(calculationType, minWages, wagePeriod);
+  if (wage >= minWage) {
+    return undefined;
+  }
+
+  return {
+    employee,
+    year,
+    month,
+    calculationType,
+    ...(wagePeriod !== "Monthly" && { wagePeriod }),
+    wage,
+    minWage,
+    shortfall: minWage - wage,
+  };
+}
+
+/**
+ * Summarize violations; `liftCost` is set when wages were lifted
+ */
+export function summarizeCompliance(
+  violations: MinWageViolation[],
+  liftCost?: number
+): MinWageCompliance {
+  return {
+    compliant: violations.length === 0,
+    violations,
+    employeesBelowMinWage: [...new Set(violations.map((v) => v.employee))],
+    autoLifted: liftCost !== undefined,
+    ...(liftCost !== undefined && { liftCost }),
+  };
+}
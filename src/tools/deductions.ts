@@ -0,0 +1,96 @@
+/**
+ * Post-tax employee deductions for MCP server
+ */
+
+import type {
+  AppliedDeduction,
+  Deduction,
+  DeductionType,
+  PensionAutoEnrolment,
+} from "../types/index.js";
+import {
+  GARNISHMENT_NET_SHARE,
+  PENSION_AUTO_ENROLMENT_RATE,
+} from "../types/index.js";
+import { ValidationError } from "../errors.js";
+
+/**
+ * Order deductions are taken in when the net wage does not cover them all
+ */
+const DEDUCTION_PRIORITY: DeductionType[] = ["Garnishment", "Advance", "UnionDues"];
+
+/**
+ * Deductions taken in a period and the balances left afterwards
+ */
+export interface PeriodDeductions {
+  deductions: AppliedDeduction[];
+  takeHomePay: number;
+  balances: Array<number | undefined>;
+}
+
+/**
+ * Take a period's deductions from the net wage: the auto-enrolment pension
+ * contribution first, then garnishments, advances and union dues.
+ * Garnishments together withhold at most a quarter of the net wage, and no
+ * deduction goes beyond what is left. `balances` holds what is left to
+ * repay per deduction, in input order.
+ */
+export function applyDeductions(
+  netWage: number,
+  ssiBase: number | undefined,
+  deductions: Deduction[],
+  autoEnrolment: PensionAutoEnrolment | undefined,
+  balances: Array<number | undefined>
+): PeriodDeductions {
+  const applied: AppliedDeduction[] = [];
+  const nextBalances = [...balances];
+  let remaining = netWage;
+
+  if (autoEnrolment && !autoEnrolment.optedOut) {
+    if (ssiBase === undefined) {
+      throw new ValidationError(
+        "BES auto-enrolment needs the SSI base, which the engine does not report for this SSI type"
+      );
+    }
+    const amount = Math.min(
+      ssiBase * (autoEnrolment.rate ?? PENSION_AUTO_ENROLMENT_RATE),
+      remaining
+    );
+    applied.push({ name: "BES", type: "PensionAutoEnrolment", amount });
+    remaining -= amount;
+  }
+
+  let garnishable = netWage * GARNISHMENT_NET_SHARE;
+  for (const type of DEDUCTION_PRIORITY) {
+    deductions.forEach((deduction, i) => {
+      if (deduction.type !== type) return;
+
+      let amount = deduction.amount ?? garnishable;
+      if (type === "Garnishment") {
+        amount = Math.min(amount, garnishable);
+      }
+      const balance = nextBalances[i];
+      if (balance !== undefined) {
+        amount = Math.min(amount, balance);
+      }
+      amount = Math.min(amount, remaining);
+      if (amount <= 0) return;
+
+      remaining -= amount;
+      if (type === "Garnishment") {
+        garnishable -= amount;
+      }
+      if (balance !== undefined) {
+        nextBalances[i] = balance - amount;
+      }
+      applied.push({
+        name: deduction.name,
+        type,
+        amount,
+        ...(balance !== undefined && { remainingBalance: balance - amount }),
+      });
+    });
+  }
+
+  return { deductions: applied, takeHomePay: remaining, balances: nextBalances };
+}
@@ -0,0 +1,81 @@
+/**
+ * Employer SSI incentives for MCP server
+ */
+
+import type {
+  AppliedIncentive,
+  IncentiveCode,
+  IncentiveSavings,
+  PeriodResult,
+  SSIIncentive,
+} from "../types/index.js";
+import { SSI_INCENTIVE_RATES } from "../types/index.js";
+
+/**
+ * Format a year/month pair as "YYYY-MM"
+ */
+function toMonthKey(year: number, month: number): string {
+  return `${year}-${String(month).padStart(2, "0")}`;
+}
+
+/**
+ * Employer SSI discount for a period. Incentives cannot be combined, so
+ * the largest one active in the month applies, up to the employer premium.
+ */
+export function calculateIncentive(
+  incentives: SSIIncentive[] | undefined,
+  year: number,
+  month: number,
+  ssiBase: number,
+  employerPremium: number
+): AppliedIncentive | undefined {
+  const monthKey = toMonthKey(year, month);
+  let best: AppliedIncentive | undefined;
+
+  for (const incentive of incentives ?? []) {
+    if (
+      incentive.startDate > monthKey ||
+      (incentive.endDate !== undefined && incentive.endDate < monthKey)
+    ) {
+      continue;
+    }
+
+    const savings = Math.min(
+      ssiBase * SSI_INCENTIVE_RATES[incentive.code],
+      employerPremium
+    );
+    if (!best || savings > best.savings) {
+      best = { code: incentive.code, savings };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Remove the incentive codes a scenario drops, e.g. losing the 5-point
+ * discount
+ */
+export function withoutIncentives(
+  incentives: SSIIncentive[] | undefined,
+  dropped: IncentiveCode[] | undefined
+): SSIIncentive[] | undefined {
+  if (!incentives || !dropped || dropped.length === 0) {
+    return incentives;
+  }
+  return incentives.filter((incentive) => !dropped.includes(incentive.code));
+}
+
+/**
+ * Add up incentive savings over periods
+ */
+export function sumIncentiveSavings(periods: PeriodResult[]): IncentiveSavings {
+  const result: IncentiveSavings = { total: 0, byCode: {} };
+  for (const { incentive } of periods) {
+    if (!incentive) continue;
+    result.total += incentive.savings;
+    result.byCode[incentive.code] =
+      (result.byCode[incentive.code] ?? 0) + incentive.savings;
+  }
+  return result;
+}
@@ -4,3 +4,8 @@
 
 export { calculatePayroll, calculateBulkPayroll } from './calculate.js';
 export { getDefaultParams, simulateBudget, compareScenarios } from './params.js';
+export { projectMultiYear } from './projection.js';
+export { solveWage } from './solve.js';
+export { allocateRaisePool } from './allocation.js';
+export { calculateTerminationCost } from './termination.js';
+export { importRoster, RosterStore } from './roster.js';
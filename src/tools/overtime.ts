@@ -0,0 +1,42 @@
+/**
+ * Overtime pay for MCP server
+ */
+
+import type { OvertimeHours, OvertimePay } from "../types/index.js";
+import { OVERTIME_MULTIPLIERS } from "../types/index.js";
+
+/**
+ * Overtime hours that apply to a period
+ */
+export function overtimeForMonth(
+  overtime: OvertimeHours[],
+  year: number,
+  month: number
+): OvertimeHours[] {
+  return overtime.filter(
+    (entry) =>
+      entry.hours > 0 &&
+      (entry.year === undefined || entry.year === year) &&
+      (entry.month === undefined || entry.month === month)
+  );
+}
+
+/**
+ * Overtime pay from the hours worked, at the statutory multipliers of the
+ * hourly gross wage
+ */
+export function calculateOvertime(
+  overtime: OvertimeHours[],
+  hourlyRate: number
+): OvertimePay[] {
+  return overtime.map(({ type, hours }) => {
+    const multiplier = OVERTIME_MULTIPLIERS[type];
+    return {
+      type,
+      hours,
+      hourlyRate,
+      multiplier,
+      amount: hours * hourlyRate * multiplier,
+    };
+  });
+}
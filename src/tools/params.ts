@@ -2,7 +2,7 @@
  * Parameter and simulation tools for MCP server
  */
 
-import { PayrollaClient } from "payrolla";
+import type { PayrollCalculator } from "../engine/index.js";
 import type {
   SimulateBudgetInput,
   SimulateBudgetResult,
@@ -12,11 +12,30 @@ import type {
   GetDefaultParamsInput,
   DefaultParamsResult,
   CustomParams,
+  EffectiveMonthParams,
+  ParameterChange,
+  ParameterSet,
+  ParamsSource,
+  PeriodWage,
+  RaiseStep,
   ScenarioConfig,
+  SimulationEmployeeInput,
   PeriodResult,
+  MinWageViolation,
+  MonthlyHeadcount,
+  PlannedHire,
 } from "../types/index.js";
-import { DEFAULT_PARAMS_2025 } from "../types/index.js";
-import { calculatePayroll } from "./calculate.js";
+import { SSI_MONTH_DAYS } from "../types/index.js";
+import { calculatePayroll, sumCostBreakdowns } from "./calculate.js";
+import { sumIncentiveSavings, withoutIncentives } from "./incentives.js";
+import {
+  checkMinWage,
+  resolveMinWages,
+  summarizeCompliance,
+  type MinWages,
+} from "./compliance.js";
+import { classifyError, ValidationError } from "../errors.js";
+import { getParamsForYear, resolveParams, toPeriodDate } from "./registry.js";
 
 /**
  * Get default parameters for a given year
@@ -24,24 +43,14 @@ import { calculatePayroll } from "./calculate.js";
 export function getDefaultParams(
   input: GetDefaultParamsInput
 ): DefaultParamsResult {
-  // Currently only 2025 is supported
-  // In the future, this could fetch from a database or API
-  if (input.year === 2025) {
-    return DEFAULT_PARAMS_2025;
-  }
-
-  // Return 2025 defaults for other years with a note
-  return {
-    ...DEFAULT_PARAMS_2025,
-    year: input.year,
-  };
+  return getParamsForYear(input.year, input.month);
 }
 
 /**
  * Apply scenario modifications to get effective parameters
  */
 function applyScenario(
-  defaults: DefaultParamsResult,
+  defaults: ParameterSet,
   scenario: ScenarioConfig
 ): CustomParams {
   const result: CustomParams = {};
@@ -50,6 +59,9 @@ function applyScenario(
   if (scenario.minWage !== undefined) {
     result.minWage = scenario.minWage;
   }
+  if (scenario.minWageNet !== undefined) {
+    result.minWageNet = scenario.minWageNet;
+  }
 
   // Apply SSI limit increase
   if (scenario.ssiLimitIncreasePercent !== undefined) {
@@ -75,6 +87,105 @@ function applyScenario(
   return result;
 }
 
+/**
+ * Overlay timeline changes effective on or before the given month
+ */
+function applyParameterChanges(
+  base: CustomParams,
+  changes: ParameterChange[] | undefined,
+  year: number,
+  month: number
+): CustomParams {
+  if (!changes || changes.length === 0) {
+    return base;
+  }
+
+  const periodDate = toPeriodDate(year, month);
+  const effective = changes
+    .filter((c) => toPeriodDate(c.year, c.month) <= periodDate)
+    .sort((a, b) =>
+      toPeriodDate(a.year, a.month).localeCompare(toPeriodDate(b.year, b.month))
+    );
+
+  const result: CustomParams = { ...base };
+  for (const { year: _year, month: _month, ...overrides } of effective) {
+    for (const [key, value] of Object.entries(overrides)) {
+      if (value !== undefined) {
+        (result as Record<string, unknown>)[key] = value;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parameters resolved for a single simulated period
+ */
+interface PeriodParams {
+  year: number;
+  month: number;
+  defaults: ParameterSet;
+  source: ParamsSource;
+  warnings: string[];
+  customParams: CustomParams;
+  minWages: MinWages;
+}
+
+/**
+ * Resolve registry defaults, scenario adjustments and timeline changes
+ * for every period of a simulation
+ */
+function resolvePeriodParams(
+  year: number,
+  month: number,
+  periodCount: number,
+  scenario: ScenarioConfig
+): PeriodParams[] {
+  return Array.from({ length: periodCount }, (_, i) => {
+    const calcDate = new Date(year, month - 1 + i, 1);
+    const calcYear = calcDate.getFullYear();
+    const calcMonth = calcDate.getMonth() + 1;
+    const resolved = resolveParams(calcYear, calcMonth);
+    const customParams = applyParameterChanges(
+      applyScenario(resolved.params, scenario),
+      scenario.parameterChanges,
+      calcYear,
+      calcMonth
+    );
+
+    return {
+      year: calcYear,
+      month: calcMonth,
+      defaults: resolved.params,
+      source: resolved.source,
+      warnings: resolved.warnings,
+      customParams,
+      minWages: resolveMinWages(resolved.params, customParams),
+    };
+  });
+}
+
+/**
+ * Describe the values actually used in a period
+ */
+function toEffectiveMonthParams(period: PeriodParams): EffectiveMonthParams {
+  const { defaults, customParams } = period;
+  return {
+    year: period.year,
+    month: period.month,
+    minWage: period.minWages.minWage,
+    minWageNet: period.minWages.minWageNet,
+    ssiLowerLimit: customParams.ssiLowerLimit ?? defaults.ssiLowerLimit,
+    ssiUpperLimit: customParams.ssiUpperLimit ?? defaults.ssiUpperLimit,
+    stampTaxRatio: customParams.stampTaxRatio ?? defaults.stampTaxRatio,
+    incomeTaxBrackets:
+      customParams.incomeTaxLimits ??
+      defaults.incomeTaxBrackets.map((b) => ({ limit: b.limit, rate: b.rate })),
+    source: period.source,
+  };
+}
+
 /**
  * Apply salary raise to wage
  */
@@ -86,123 +197,363 @@ function applyRaise(wage: number, raisePercent?: number): number {
 }
 
 /**
- * Simulate budget with what-if scenario modifications
+ * Apply scheduled raises effective on or before the given month, in date order
  */
-export async function simulateBudget(
-  client: PayrollaClient,
-  input: SimulateBudgetInput
-): Promise<SimulateBudgetResult> {
-  const { employees, year, periodCount, scenario } = input;
-  const defaults = getDefaultParams({ year });
+function applyRaiseSchedule(
+  wage: number,
+  steps: RaiseStep[] | undefined,
+  year: number,
+  month: number
+): number {
+  if (!steps || steps.length === 0) {
+    return wage;
+  }
+
+  const periodDate = toPeriodDate(year, month);
+  const effective = steps
+    .filter((s) => toPeriodDate(s.year, s.month) <= periodDate)
+    .sort((a, b) =>
+      toPeriodDate(a.year, a.month).localeCompare(toPeriodDate(b.year, b.month))
+    );
+
+  let result = wage;
+  for (const step of effective) {
+    if (step.percent !== undefined) {
+      result = applyRaise(result, step.percent);
+    }
+    if (step.amount !== undefined) {
+      result += step.amount;
+    }
+  }
 
-  // Apply scenario to get custom params
-  const customParams = applyScenario(defaults, scenario);
+  return result;
+}
 
-  const employeeResults: SimulationEmployeeResult[] = [];
-  let totalYearlyCost = 0;
-  let totalYearlyNet = 0;
-  let totalYearlyGross = 0;
+/**
+ * Days on payroll in a month, counting a full month as 30 days.
+ * Start and end dates are inclusive "YYYY-MM-DD" strings.
+ */
+function countWorkedDays(
+  year: number,
+  month: number,
+  startDate?: string,
+  endDate?: string
+): number {
+  const daysInMonth = new Date(year, month, 0).getDate();
+  const monthStart = toPeriodDate(year, month);
+  const monthEnd = `${monthStart.slice(0, 8)}${String(daysInMonth).padStart(2, "0")}`;
+
+  const from = startDate && startDate > monthStart ? startDate : monthStart;
+  const to = endDate && endDate < monthEnd ? endDate : monthEnd;
+  if (from > to) {
+    return 0;
+  }
+  if (from === monthStart && to === monthEnd) {
+    return SSI_MONTH_DAYS;
+  }
+  return Math.min(Number(to.slice(8)) - Number(from.slice(8)) + 1, SSI_MONTH_DAYS);
+}
 
-  for (const emp of employees) {
-    const adjustedWage = applyRaise(emp.wage, scenario.salaryRaisePercent);
-
-    // Track cumulative values across periods
-    let cumulativeIncomeTaxBase = 0;
-    let cumulativeMinWageIncomeTaxBase = 0;
-    let transferredSSIBase1 = 0;
-    let transferredSSIBase2 = 0;
-
-    let empTotalCost = 0;
-    let empTotalNet = 0;
-    let empTotalGross = 0;
-    const empPeriods: PeriodResult[] = [];
-
-    // Calculate each period separately to handle pay events
-    for (let i = 0; i < periodCount; i++) {
-      const calcDate = new Date(year, i, 1);
-      const calcYear = calcDate.getFullYear();
-      const calcMonth = calcDate.getMonth() + 1;
-
-      // Filter pay events for this specific period
-      const periodPayEvents = (emp.payEvents || []).filter(
-        (pe) => pe.year === calcYear && pe.month === calcMonth
-      );
-
-      // Convert PayEvents to ExtraPayment format
-      const extraPayments = periodPayEvents.map((pe) => ({
-        name: pe.name,
-        amount: pe.amount,
-        type: pe.type as "Net" | "Gross",
-        paymentType: pe.paymentType,
-      }));
-
-      const result = await calculatePayroll(client, {
-        name: emp.name,
-        wage: adjustedWage,
-        calculationType: emp.calculationType,
-        ssiType: emp.ssiType,
-        year: calcYear,
-        month: calcMonth,
-        periodCount: 1,
-        extraPayments: extraPayments.length > 0 ? extraPayments : undefined,
-        customParams,
-        cumulativeIncomeTaxBase,
-        cumulativeMinWageIncomeTaxBase,
-        transferredSSIBase1,
-        transferredSSIBase2,
-      });
-
-      empTotalCost += result.totalCost;
-      empTotalNet += result.totalNet;
-      empTotalGross += result.totalGross;
-
-      // Collect period result
-      const lastPeriod = result.periods[0];
-      empPeriods.push(lastPeriod);
-
-      // Carry forward cumulative values
-      cumulativeIncomeTaxBase = lastPeriod.cumulativeIncomeTaxBase;
-      cumulativeMinWageIncomeTaxBase = lastPeriod.cumulativeMinWageIncomeTaxBase;
-      transferredSSIBase1 = lastPeriod.transferredSSIBase1;
-      transferredSSIBase2 = lastPeriod.transferredSSIBase2;
+/**
+ * Days and hours worked in a month on the employee's regular schedule,
+ * scaled to the days on payroll in months they join or leave. Daily wages
+ * without a schedule are paid for every day on payroll.
+ */
+function scheduleForMonth(
+  emp: SimulationEmployeeInput,
+  daysOnPayroll: number
+): { workedDays?: number; workedHours?: number } {
+  const ratio = daysOnPayroll / SSI_MONTH_DAYS;
+  const workedDays =
+    emp.workedDays !== undefined
+      ? Math.max(Math.round(emp.workedDays * ratio), 1)
+      : emp.wagePeriod === "Hourly" ||
+          (ratio === 1 && emp.wagePeriod !== "Daily")
+        ? undefined
+        : daysOnPayroll;
+  const workedHours =
+    emp.workedHours !== undefined
+      ? Math.round(emp.workedHours * ratio * 100) / 100
+      : undefined;
+  return { workedDays, workedHours };
+}
+
+/**
+ * Expand planned hires into one employee per head
+ */
+function expandPlannedHires(hires: PlannedHire[]): SimulationEmployeeInput[] {
+  return hires.flatMap(({ role, count = 1, ...hire }) =>
+    Array.from({ length: count }, (_, i) => ({
+      ...hire,
+      name: count > 1 ? `${role} ${i + 1}` : role,
+    }))
+  );
+}
+
+/**
+ * Simulated employee with the periods where the wage was below the
+ * minimum wage
+ */
+interface EmployeeSimulation {
+  result: SimulationEmployeeResult;
+  violations: MinWageViolation[];
+}
+
+/**
+ * Simulate every period of a single employee. Periods run sequentially
+ * because each one carries the cumulative bases of the previous one.
+ * With `liftToMinWage`, wages below the minimum wage are raised to it.
+ */
+async function simulateEmployee(
+  client: PayrollCalculator,
+  emp: SimulationEmployeeInput,
+  periodParams: PeriodParams[],
+  scenario: ScenarioConfig,
+  liftToMinWage = false
+): Promise<EmployeeSimulation> {
+  const periodCount = periodParams.length;
+  if (emp.startDate && emp.endDate && emp.endDate < emp.startDate) {
+    throw new ValidationError(`${emp.name}: end date ${emp.endDate} is before start date ${emp.startDate}`);
+  }
+  const adjustedWage = applyRaise(emp.wage, scenario.salaryRaisePercent);
+  // Per-employee raises replace the scenario-wide schedule
+  const raiseSteps = emp.raises ?? scenario.raiseSchedule;
+  const incentives = withoutIncentives(emp.incentives, scenario.dropIncentives);
+
+  // Track cumulative values across periods, starting from carried bases
+  let cumulativeIncomeTaxBase = emp.cumulativeIncomeTaxBase ?? 0;
+  let cumulativeMinWageIncomeTaxBase = emp.cumulativeMinWageIncomeTaxBase ?? 0;
+  let transferredSSIBase1 = emp.transferredSSIBase1 ?? 0;
+  let transferredSSIBase2 = emp.transferredSSIBase2 ?? 0;
+  let basesYear = periodParams[0].year;
+
+  let empTotalCost = 0;
+  let empTotalNet = 0;
+  let empTotalGross = 0;
+  const empPeriods: PeriodResult[] = [];
+  const periodWages: PeriodWage[] = [];
+  const violations: MinWageViolation[] = [];
+
+  // Calculate each period separately to handle pay events
+  for (let i = 0; i < periodCount; i++) {
+    const { year: calcYear, month: calcMonth } = periodParams[i];
+    const daysOnPayroll = countWorkedDays(
+      calcYear,
+      calcMonth,
+      emp.startDate,
+      emp.endDate
+    );
+    if (daysOnPayroll === 0) {
+      // Not on payroll this month
+      continue;
     }
+    const { workedDays, workedHours } = scheduleForMonth(emp, daysOnPayroll);
+
+    // Filter pay events for this specific period
+    const periodPayEvents = (emp.payEvents || []).filter(
+      (pe) => pe.year === calcYear && pe.month === calcMonth
+    );
+
+    // Convert PayEvents to ExtraPayment format
+    const extraPayments = periodPayEvents.map((pe) => ({
+      name: pe.name,
+      amount: pe.amount,
+      type: pe.type as "Net" | "Gross",
+      paymentType: pe.paymentType,
+      benefitType: pe.benefitType,
+    }));
 
-    employeeResults.push({
+    let periodWage = applyRaiseSchedule(
+      adjustedWage,
+      raiseSteps,
+      calcYear,
+      calcMonth
+    );
+    const violation = checkMinWage(
+      emp.name,
+      emp.calculationType,
+      periodWage,
+      calcYear,
+      calcMonth,
+      periodParams[i].minWages,
+      emp.wagePeriod
+    );
+    if (violation && liftToMinWage) {
+      violations.push({ ...violation, lifted: true });
+      periodWage = violation.minWage;
+    } else if (violation) {
+      violations.push(violation);
+    }
+    periodWages.push({
+      year: calcYear,
+      month: calcMonth,
+      wage: periodWage,
+      ...(workedDays !== undefined && { workedDays }),
+      ...(workedHours !== undefined && { workedHours }),
+    });
+
+    const result = await calculatePayroll(client, {
       name: emp.name,
+      wage: periodWage,
+      calculationType: emp.calculationType,
+      ssiType: emp.ssiType,
+      year: calcYear,
+      month: calcMonth,
+      periodCount: 1,
+      extraPayments: extraPayments.length > 0 ? extraPayments : undefined,
+      customParams: periodParams[i].customParams,
+      incentives,
+      cumulativeIncomeTaxBase,
+      cumulativeMinWageIncomeTaxBase,
+      basesYear,
+      transferredSSIBase1,
+      transferredSSIBase2,
+      wagePeriod: emp.wagePeriod,
+      workedDays,
+      workedHours,
+      overtime: emp.overtime,
+      attendance: emp.attendance,
+    });
+
+    empTotalCost += result.totalCost;
+    empTotalNet += result.totalNet;
+    empTotalGross += result.totalGross;
+
+    // Collect period result
+    const lastPeriod = result.periods[0];
+    empPeriods.push(lastPeriod);
+
+    // Carry forward cumulative values
+    cumulativeIncomeTaxBase = lastPeriod.cumulativeIncomeTaxBase;
+    cumulativeMinWageIncomeTaxBase = lastPeriod.cumulativeMinWageIncomeTaxBase;
+    transferredSSIBase1 = lastPeriod.transferredSSIBase1;
+    transferredSSIBase2 = lastPeriod.transferredSSIBase2;
+    basesYear = calcYear;
+  }
+
+  return {
+    result: {
+      name: emp.name,
+      ...(emp.wagePeriod &&
+        emp.wagePeriod !== "Monthly" && { wagePeriod: emp.wagePeriod }),
       originalWage: emp.wage,
       adjustedWage,
+      periodWages,
       yearlyCost: empTotalCost,
       yearlyNet: empTotalNet,
       yearlyGross: empTotalGross,
       periods: empPeriods,
-    });
+    },
+    violations,
+  };
+}
 
-    totalYearlyCost += empTotalCost;
-    totalYearlyNet += empTotalNet;
-    totalYearlyGross += empTotalGross;
+/**
+ * Simulate budget with what-if scenario modifications
+ */
+export async function simulateBudget(
+  client: PayrollCalculator,
+  input: SimulateBudgetInput
+): Promise<SimulateBudgetResult> {
+  const { year, month = 1, periodCount, scenario } = input;
+  const employees = [
+    ...input.employees,
+    ...expandPlannedHires(input.plannedHires ?? []),
+  ];
+
+  // Resolve effective parameters per period so mid-year changes are honoured
+  const periodParams = resolvePeriodParams(year, month, periodCount, scenario);
+  const monthlyParams = periodParams.map(toEffectiveMonthParams);
+  const parameterWarnings = [
+    ...new Set(periodParams.flatMap((p) => p.warnings)),
+  ];
+
+  // Employees are independent, so they run in parallel; the calculator
+  // limits how many requests are actually in flight
+  const liftToMinWage = scenario.autoLiftToMinWage ?? false;
+  const simulations = await Promise.all(
+    employees.map((emp) =>
+      simulateEmployee(client, emp, periodParams, scenario, liftToMinWage)
+    )
+  );
+  const employeeResults = simulations.map((sim) => sim.result);
+  for (let i = input.employees.length; i < employeeResults.length; i++) {
+    employeeResults[i].planned = true;
   }
 
-  // Build scenario applied info
-  const effectiveTaxBrackets =
-    customParams.incomeTaxLimits ||
-    defaults.incomeTaxBrackets.map((b) => ({
-      limit: b.limit,
-      rate: b.rate,
-    }));
+  // Price the lift by simulating lifted employees at their own wages
+  let liftCost: number | undefined;
+  if (liftToMinWage) {
+    const unlifted = await Promise.all(
+      simulations.map((sim, i) =>
+        sim.violations.length > 0
+          ? simulateEmployee(client, employees[i], periodParams, scenario)
+          : undefined
+      )
+    );
+    liftCost = 0;
+    for (let i = 0; i < unlifted.length; i++) {
+      const sim = unlifted[i];
+      if (!sim) continue;
+      const cost = employeeResults[i].yearlyCost - sim.result.yearlyCost;
+      employeeResults[i].minWageLiftCost = cost;
+      liftCost += cost;
+    }
+  }
+
+  let totalYearlyCost = 0;
+  let totalYearlyNet = 0;
+  let totalYearlyGross = 0;
+  const allPeriods = employeeResults.flatMap((emp) => emp.periods);
+  for (const result of employeeResults) {
+    totalYearlyCost += result.yearlyCost;
+    totalYearlyNet += result.yearlyNet;
+    totalYearlyGross += result.yearlyGross;
+  }
+
+  const headcountByMonth: MonthlyHeadcount[] = periodParams.map((p) => {
+    const periods = allPeriods.filter(
+      (period) => period.year === p.year && period.month === p.month
+    );
+    return {
+      year: p.year,
+      month: p.month,
+      headcount: periods.length,
+      fullTimeEquivalent: periods.reduce(
+        (sum, period) => sum + (period.workedDays ?? SSI_MONTH_DAYS) / SSI_MONTH_DAYS,
+        0
+      ),
+      employerCost: periods.reduce((sum, period) => sum + period.employerCost, 0),
+    };
+  });
 
   return {
     scenarioApplied: {
       salaryRaisePercent: scenario.salaryRaisePercent || 0,
-      effectiveMinWage: customParams.minWage || defaults.minWage,
-      effectiveTaxBrackets,
+      effectiveMinWage: monthlyParams[0].minWage,
+      effectiveTaxBrackets: monthlyParams[0].incomeTaxBrackets,
+      parameterSource: periodParams.some((p) => p.source === "extrapolated")
+        ? "extrapolated"
+        : "official",
+      ...(parameterWarnings.length > 0 && { parameterWarnings }),
+      monthlyParams,
     },
     summary: {
       totalYearlyCost,
       totalYearlyNet,
       totalYearlyGross,
       costPerEmployee: totalYearlyCost / employees.length,
+      costBreakdown: sumCostBreakdowns(
+        allPeriods.map((p) => p.costBreakdown)
+      ),
+      incentiveSavings: sumIncentiveSavings(allPeriods),
+      headcountByMonth,
     },
     employees: employeeResults,
+    compliance: summarizeCompliance(
+      simulations.flatMap((sim) => sim.violations),
+      liftCost
+    ),
   };
 }
 
@@ -210,34 +561,35 @@ export async function simulateBudget(
  * Compare multiple budget scenarios side by side
  */
 export async function compareScenarios(
-  client: PayrollaClient,
+  client: PayrollCalculator,
   input: CompareScenariosInput
 ): Promise<CompareScenariosResult> {
-  const { employees, year, periodCount, scenarios } = input;
+  const { employees, year, month, periodCount, scenarios } = input;
 
   if (scenarios.length === 0) {
-    throw new Error("At least one scenario is required");
+    throw new ValidationError("At least one scenario is required");
   }
 
-  const results: Array<{
-    name: string;
-    totalCost: number;
-  }> = [];
-
-  // Calculate each scenario
-  for (const scenario of scenarios) {
-    const result = await simulateBudget(client, {
-      employees,
-      year,
-      periodCount,
-      scenario,
-    });
-
-    results.push({
-      name: scenario.name || `Scenario ${results.length + 1}`,
-      totalCost: result.summary.totalYearlyCost,
-    });
-  }
+  // Scenarios are independent, so they run in parallel in input order
+  const names = scenarios.map((s, index) => s.name || `Scenario ${index + 1}`);
+  const simulations = await Promise.all(
+    scenarios.map((scenario, index) =>
+      simulateBudget(client, {
+        employees,
+        year,
+        month,
+        periodCount,
+        scenario,
+      }).catch((error) => {
+        throw classifyError(error).withContext({ scenario: names[index] });
+      })
+    )
+  );
+
+  const results = simulations.map((result, index) => ({
+    name: names[index],
+    totalCost: result.summary.totalYearlyCost,
+  }));
 
   // Use first scenario as baseline
   const baselineCost = results[0].totalCost;
@@ -0,0 +1,32 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { LocalPayrollEngine } from "../engine/index.js";
+import { projectMultiYear } from "./projection.js";
+
+describe("projectMultiYear assumed minimum wage", () => {
+  it("moves the SSI ceiling in official and extrapolated years alike", async () => {
+    // Above the 2026 ceiling of 247,725 but below 7.5 times 40,000
+    const wage = 280000;
+    const result = await projectMultiYear(new LocalPayrollEngine(), {
+      employees: [{ name: "A", wage, calculationType: "Gross" }],
+      startYear: 2026,
+      endYear: 2027,
+      assumptions: [
+        { year: 2026, minWage: 40000 },
+        { year: 2027, minWage: 40000 },
+      ],
+    });
+
+    assert.deepEqual(
+      result.years.map((y) => y.parameterSource),
+      ["official", "extrapolated"]
+    );
+    for (const year of result.years) {
+      assert.ok(
+        Math.abs(year.totalCost - 12 * wage * 1.2275) < 1e-6,
+        `${year.year}: ${year.totalCost}`
+      );
+    }
+  });
+});
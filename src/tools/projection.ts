@@ -0,0 +1,273 @@
+/**
+ * Multi-year budget projection tool for MCP server
+ */
+
+import type { PayrollCalculator } from "../engine/index.js";
+import type {
+  ParameterChange,
+  ProjectMultiYearInput,
+  ProjectMultiYearResult,
+  ProjectionEmployeeResult,
+  ProjectionMonthTotal,
+  ProjectionYearResult,
+  ScenarioConfig,
+  SimulationEmployeeInput,
+} from "../types/index.js";
+import { SSI_UPPER_LIMIT_MULTIPLIER } from "../types/index.js";
+import { ValidationError } from "../errors.js";
+import { simulateBudget } from "./params.js";
+import { resolveParams } from "./registry.js";
+
+/**
+ * Maximum number of years in a single projection
+ */
+const MAX_PROJECTION_YEARS = 10;
+
+/**
+ * Effective values at the end of a projected year, used as the starting
+ * point for years without official parameters
+ */
+interface YearEndParams {
+  minWage: number;
+  ssiUpperLimit: number;
+  incomeTaxBrackets: Array<{ limit: number; rate: number }>;
+}
+
+/**
+ * Index bracket limits by a percentage, leaving the open top bracket as is
+ */
+function indexBrackets(
+  brackets: Array<{ limit: number; rate: number }>,
+  percent?: number
+): Array<{ limit: number; rate: number }> {
+  const multiplier = 1 + (percent ?? 0) / 100;
+  return brackets.map((bracket) => ({
+    limit:
+      bracket.limit === Number.MAX_SAFE_INTEGER
+        ? bracket.limit
+        : Math.round(bracket.limit * multiplier),
+    rate: bracket.rate,
+  }));
+}
+
+/**
+ * SSI limits for a minimum wage: the floor is the minimum wage and the
+ * ceiling is 7.5 times it, unless an increase on the given ceiling is assumed
+ */
+function ssiLimitsFor(
+  minWage: number,
+  ssiUpperLimit: number,
+  increasePercent?: number
+): Pick<ParameterChange, "ssiLowerLimit" | "ssiUpperLimit"> {
+  return {
+    ssiLowerLimit: minWage,
+    ssiUpperLimit:
+      increasePercent !== undefined
+        ? ssiUpperLimit * (1 + increasePercent / 100)
+        : minWage * SSI_UPPER_LIMIT_MULTIPLIER,
+  };
+}
+
+/**
+ * Build the scenario for one projected year.
+ * Official years use the registry (including mid-year changes) with the
+ * assumptions applied as scenario adjustments. Extrapolated years compound
+ * the assumptions on top of the previous year's effective values. In both,
+ * an assumed minimum wage moves the SSI limits with it.
+ */
+function buildYearScenario(
+  input: ProjectMultiYearInput,
+  year: number,
+  previous: YearEndParams | undefined
+): ScenarioConfig {
+  const assumption = input.assumptions?.find((a) => a.year === year);
+  const { params, source } = resolveParams(year, 1);
+
+  if (source === "official" || !previous) {
+    const scenario: ScenarioConfig = {
+      name: String(year),
+      salaryRaisePercent: assumption?.raisePercent,
+      minWage: assumption?.minWage,
+      taxLimitIncreasePercent: assumption?.taxLimitIncreasePercent,
+      ssiLimitIncreasePercent: assumption?.ssiLimitIncreasePercent,
+    };
+    if (assumption?.minWage === undefined) {
+      return scenario;
+    }
+
+    return {
+      ...scenario,
+      ssiLimitIncreasePercent: undefined,
+      parameterChanges: [
+        {
+          year,
+          month: 1,
+          minWage: assumption.minWage,
+          ...ssiLimitsFor(
+            assumption.minWage,
+            params.ssiUpperLimit,
+            assumption.ssiLimitIncreasePercent
+          ),
+        },
+      ],
+    };
+  }
+
+  const minWage = assumption?.minWage ?? previous.minWage;
+  const change: ParameterChange = {
+    year,
+    month: 1,
+    minWage,
+    ...ssiLimitsFor(
+      minWage,
+      previous.ssiUpperLimit,
+      assumption?.ssiLimitIncreasePercent
+    ),
+    incomeTaxLimits: indexBrackets(
+      previous.incomeTaxBrackets,
+      assumption?.taxLimitIncreasePercent
+    ),
+  };
+
+  return {
+    name: String(year),
+    salaryRaisePercent: assumption?.raisePercent,
+    parameterChanges: [change],
+  };
+}
+
+/**
+ * Project payroll cost over several years, carrying wages and SSI
+ * transfers from one year into the next
+ */
+export async function projectMultiYear(
+  client: PayrollCalculator,
+  input: ProjectMultiYearInput
+): Promise<ProjectMultiYearResult> {
+  const { employees, startYear, endYear } = input;
+
+  if (endYear < startYear) {
+    throw new ValidationError("endYear must not be before startYear");
+  }
+  if (endYear - startYear + 1 > MAX_PROJECTION_YEARS) {
+    throw new ValidationError(
+      `Projection is limited to ${MAX_PROJECTION_YEARS} years per call`
+    );
+  }
+  // Fail fast on years before the parameter registry
+  resolveParams(startYear, 1);
+
+  let currentEmployees: SimulationEmployeeInput[] = employees;
+  let previous: YearEndParams | undefined;
+  let previousCost: number | null = null;
+
+  const years: ProjectionYearResult[] = [];
+  const employeeResults: ProjectionEmployeeResult[] = employees.map((emp) => ({
+    name: emp.name,
+    startWage: emp.wage,
+    endWage: emp.wage,
+    totalCost: 0,
+  }));
+
+  for (let year = startYear; year <= endYear; year++) {
+    const scenario = buildYearScenario(input, year, previous);
+
+    // Only this year's per-employee raises apply to the carried wage
+    const yearEmployees = currentEmployees.map((emp) => ({
+      ...emp,
+      raises: emp.raises?.filter((r) => r.year === year),
+    }));
+
+    const result = await simulateBudget(client, {
+      employees: yearEmployees,
+      year,
+      month: 1,
+      periodCount: 12,
+      scenario,
+    });
+
+    const months: ProjectionMonthTotal[] = [];
+    for (let i = 0; i < 12; i++) {
+      const total: ProjectionMonthTotal = {
+        year,
+        month: i + 1,
+        totalCost: 0,
+        totalNet: 0,
+        totalGross: 0,
+      };
+      for (const emp of result.employees) {
+        // Hires and leavers have no period in the months they are off payroll
+        const period = emp.periods.find(
+          (p) => p.year === year && p.month === i + 1
+        );
+        if (!period) continue;
+        total.totalCost += period.employerCost;
+        total.totalNet += period.netWage;
+        total.totalGross += period.grossWage;
+      }
+      months.push(total);
+    }
+
+    const { monthlyParams } = result.scenarioApplied;
+    const totalCost = result.summary.totalYearlyCost;
+
+    years.push({
+      year,
+      parameterSource: result.scenarioApplied.parameterSource,
+      raisePercent: result.scenarioApplied.salaryRaisePercent,
+      minWage: monthlyParams[0].minWage,
+      incomeTaxBrackets: monthlyParams[0].incomeTaxBrackets,
+      totalCost,
+      totalNet: result.summary.totalYearlyNet,
+      totalGross: result.summary.totalYearlyGross,
+      costChangePercent:
+        previousCost !== null && previousCost > 0
+          ? ((totalCost - previousCost) / previousCost) * 100
+          : null,
+      months,
+      ...(result.scenarioApplied.parameterWarnings && {
+        warnings: result.scenarioApplied.parameterWarnings,
+      }),
+    });
+
+    const yearEnd = monthlyParams[monthlyParams.length - 1];
+    previous = {
+      minWage: yearEnd.minWage,
+      ssiUpperLimit: yearEnd.ssiUpperLimit,
+      incomeTaxBrackets: yearEnd.incomeTaxBrackets,
+    };
+    previousCost = totalCost;
+
+    // Carry final wages and SSI transfers; income tax bases restart in January.
+    // Employees not on payroll this year (not hired yet or already left)
+    // carry over unchanged.
+    currentEmployees = currentEmployees.map((emp, index) => {
+      const empResult = result.employees[index];
+      const lastPeriod = empResult.periods[empResult.periods.length - 1];
+      if (!lastPeriod) {
+        return emp;
+      }
+      const endWage = empResult.periodWages[empResult.periodWages.length - 1].wage;
+
+      employeeResults[index].endWage = endWage;
+      employeeResults[index].totalCost += empResult.yearlyCost;
+
+      return {
+        ...emp,
+        wage: endWage,
+        cumulativeIncomeTaxBase: undefined,
+        cumulativeMinWageIncomeTaxBase: undefined,
+        transferredSSIBase1: lastPeriod.transferredSSIBase1,
+        transferredSSIBase2: lastPeriod.transferredSSIBase2,
+      };
+    });
+  }
+
+  return {
+    totalCost: years.reduce((sum, y) => sum + y.totalCost, 0),
+    totalNet: years.reduce((sum, y) => sum + y.totalNet, 0),
+    totalGross: years.reduce((sum, y) => sum + y.totalGross, 0),
+    years,
+    employees: employeeResults,
+  };
+}
@@ -0,0 +1,25 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { resolveBenefitExemptions } from "./registry.js";
+
+describe("resolveBenefitExemptions", () => {
+  it("resolves the registered limits of a year", () => {
+    const { limits, warnings } = resolveBenefitExemptions("2026-03-01");
+
+    assert.equal(limits.effectiveFrom, "2026-01-01");
+    assert.deepEqual(warnings, []);
+  });
+
+  it("flags years after the latest entry as extrapolated", () => {
+    const { limits, warnings } = resolveBenefitExemptions("2027-01-01");
+
+    assert.equal(limits.effectiveFrom, "2026-01-01");
+    assert.equal(warnings.length, 1);
+    assert.match(warnings[0], /No official benefit exemption limits for 2027/);
+  });
+
+  it("rejects dates before the registry", () => {
+    assert.throws(() => resolveBenefitExemptions("2023-12-31"));
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Year-aware payroll parameter registry
+ */
+
+import type {
+  BenefitExemptionLimits,
+  DefaultParamsResult,
+  ParameterSet,
+  ParamsSource,
+  SeveranceCeiling,
+} from "../types/index.js";
+import {
+  BENEFIT_EXEMPTION_REGISTRY,
+  PARAMETER_REGISTRY,
+  SEVERANCE_CEILING_REGISTRY,
+} from "../types/index.js";
+import { ValidationError } from "../errors.js";
+
+/**
+ * Parameter set resolved for a specific month
+ */
+export interface ResolvedParams {
+  params: ParameterSet;
+  source: ParamsSource;
+  warnings: string[];
+}
+
+/**
+ * Format a year/month pair as an ISO date on the first of the month
+ */
+export function toPeriodDate(year: number, month: number): string {
+  return `${year}-${String(month).padStart(2, "0")}-01`;
+}
+
+function firstRegisteredYear(): number {
+  return Number(PARAMETER_REGISTRY[0].effectiveFrom.slice(0, 4));
+}
+
+function lastRegisteredYear(): number {
+  const last = PARAMETER_REGISTRY[PARAMETER_REGISTRY.length - 1];
+  return Number(last.effectiveFrom.slice(0, 4));
+}
+
+/**
+ * List the years that have official parameters
+ */
+export function getRegisteredYears(): number[] {
+  const years = PARAMETER_REGISTRY.map((p) =>
+    Number(p.effectiveFrom.slice(0, 4))
+  );
+  return [...new Set(years)];
+}
+
+/**
+ * Resolve the parameters effective on the first day of the given month.
+ * Years after the last registered year reuse the latest values and are
+ * flagged as extrapolated; years before the registry are rejected.
+ */
+export function resolveParams(year: number, month = 1): ResolvedParams {
+  if (!Number.isInteger(month) || month < 1 || month > 12) {
+    throw new ValidationError(`Invalid month ${month}: expected 1-12`);
+  }
+
+  const firstYear = firstRegisteredYear();
+  if (year < firstYear) {
+    throw new ValidationError(
+      `No payroll parameters registered for ${year}. ` +
+        `Supported years: ${getRegisteredYears().join(", ")}`
+    );
+  }
+
+  const date = toPeriodDate(year, month);
+  let params = PARAMETER_REGISTRY[0];
+  for (const entry of PARAMETER_REGISTRY) {
+    if (entry.effectiveFrom <= date) {
+      params = entry;
+    }
+  }
+
+  const lastYear = lastRegisteredYear();
+  if (year > lastYear) {
+    return {
+      params,
+      source: "extrapolated",
+      warnings: [
+        `No official parameters for ${year}; using values effective from ${params.effectiveFrom}. ` +
+          "Pass customParams or scenario values to model expected changes.",
+      ],
+    };
+  }
+
+  return { params, source: "official", warnings: [] };
+}
+
+/**
+ * Get the parameter set for a year (optionally a specific month),
+ * listing any mid-year changes registered for that year
+ */
+export function getParamsForYear(
+  year: number,
+  month?: number
+): DefaultParamsResult {
+  const resolved = resolveParams(year, month ?? 1);
+  const changes = PARAMETER_REGISTRY.filter(
+    (p) => p.effectiveFrom.startsWith(`${year}-`) && p.effectiveFrom > `${year}-01-01`
+  );
+
+  const result: DefaultParamsResult = {
+    year,
+    source: resolved.source,
+    ...resolved.params,
+  };
+
+  if (resolved.warnings.length > 0) {
+    result.warnings = resolved.warnings;
+  }
+  if (changes.length > 0) {
+    result.midYearChanges = changes;
+  }
+
+  return result;
+}
+
+/**
+ * Severance ceiling resolved for a specific date
+ */
+export interface ResolvedSeveranceCeiling {
+  ceiling: SeveranceCeiling;
+  warnings: string[];
+}
+
+/**
+ * Resolve the severance ceiling effective on a date ("YYYY-MM-DD").
+ * Dates after the next half-yearly update of the latest entry reuse it
+ * with a warning.
+ */
+export function resolveSeveranceCeiling(date: string): ResolvedSeveranceCeiling {
+  const first = SEVERANCE_CEILING_REGISTRY[0];
+  if (date < first.effectiveFrom) {
+    throw new ValidationError(
+      `No severance ceiling registered before ${first.effectiveFrom}`
+    );
+  }
+
+  let ceiling = first;
+  for (const entry of SEVERANCE_CEILING_REGISTRY) {
+    if (entry.effectiveFrom <= date) {
+      ceiling = entry;
+    }
+  }
+
+  const latest = SEVERANCE_CEILING_REGISTRY[SEVERANCE_CEILING_REGISTRY.length - 1];
+  const [year, month] = latest.effectiveFrom.split("-").map(Number);
+  const nextUpdate =
+    month >= 7 ? toPeriodDate(year + 1, 1) : toPeriodDate(year, 7);
+  if (ceiling === latest && date >= nextUpdate) {
+    return {
+      ceiling,
+      warnings: [
+        `No official severance ceiling for ${date}; using the ceiling effective from ${latest.effectiveFrom}. ` +
+          "Pass severanceCeiling to model the expected value.",
+      ],
+    };
+  }
+
+  return { ceiling, warnings: [] };
+}
+
+/**
+ * Benefit exemption limits resolved for a specific date
+ */
+export interface ResolvedBenefitExemptions {
+  limits: BenefitExemptionLimits;
+  warnings: string[];
+}
+
+/**
+ * Resolve the benefit exemption limits effective on a date ("YYYY-MM-DD").
+ * Dates after the January update that follows the latest entry reuse it
+ * with a warning.
+ */
+export function resolveBenefitExemptions(
+  date: string
+): ResolvedBenefitExemptions {
+  const first = BENEFIT_EXEMPTION_REGISTRY[0];
+  if (date < first.effectiveFrom) {
+    throw new ValidationError(
+      `No benefit exemption limits registered before ${first.effectiveFrom}; ` +
+        "pass mealExemptionDaily and transportExemptionDaily in customParams"
+    );
+  }
+
+  let limits = first;
+  for (const entry of BENEFIT_EXEMPTION_REGISTRY) {
+    if (entry.effectiveFrom <= date) {
+      limits = entry;
+    }
+  }
+
+  const latest = BENEFIT_EXEMPTION_REGISTRY[BENEFIT_EXEMPTION_REGISTRY.length - 1];
+  const nextUpdate = toPeriodDate(Number(latest.effectiveFrom.slice(0, 4)) + 1, 1);
+  if (limits === latest && date >= nextUpdate) {
+    return {
+      limits,
+      warnings: [
+        `No official benefit exemption limits for ${date.slice(0, 4)}; using the limits effective from ${latest.effectiveFrom}. ` +
+          "Pass mealExemptionDaily and transportExemptionDaily in customParams to model the expected values.",
+      ],
+    };
+  }
+
+  return { limits, warnings: [] };
+}
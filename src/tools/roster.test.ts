@@ -0,0 +1,172 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { deflateRawSync } from "node:zlib";
+
+import { importRoster, RosterStore } from "./roster.js";
+
+/**
+ * File in a test zip archive: text is stored, a buffer is given deflated
+ * with the uncompressed size the archive declares
+ */
+type ZipFile = string | { deflated: Buffer; declaredSize: number };
+
+/**
+ * Zip archive of the given files; the reader skips CRCs
+ */
+function zip(files: Record<string, ZipFile>): Buffer {
+  const locals: Buffer[] = [];
+  const entries: Buffer[] = [];
+  let offset = 0;
+  for (const [name, file] of Object.entries(files)) {
+    const data = typeof file === "string" ? Buffer.from(file, "utf8") : file.deflated;
+    const size = typeof file === "string" ? data.length : file.declaredSize;
+    const method = typeof file === "string" ? 0 : 8;
+    const fileName = Buffer.from(name, "utf8");
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(fileName.length, 26);
+    locals.push(local, fileName, data);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(method, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(size, 24);
+    entry.writeUInt16LE(fileName.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    entries.push(entry, fileName);
+
+    offset += local.length + fileName.length + data.length;
+  }
+
+  const directory = Buffer.concat(entries);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+/**
+ * Base64 XLSX workbook with the given worksheet file
+ */
+function workbook(sheet: ZipFile): string {
+  return zip({
+    "xl/workbook.xml": '<workbook><sheets><sheet name="Sheet1" r:id="rId1"/></sheets></workbook>',
+    "xl/_rels/workbook.xml.rels":
+      '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+    "xl/worksheets/sheet1.xml": sheet,
+  }).toString("base64");
+}
+
+/**
+ * Base64 XLSX workbook with one sheet of the given cell XML per row
+ */
+function xlsx(rows: string[]): string {
+  return workbook(
+    `<worksheet><sheetData>${rows
+      .map((cells, i) => `<row r="${i + 1}">${cells}</row>`)
+      .join("")}</sheetData></worksheet>`
+  );
+}
+
+async function importWages(content: string): Promise<unknown[]> {
+  const result = await importRoster(new RosterStore(), { content }, { allowLocalFiles: false });
+  return result.preview.map((employee) => employee.wage);
+}
+
+describe("importRoster numbers", () => {
+  it("takes XLSX numeric cells as they are", async () => {
+    const content = xlsx([
+      '<c r="A1" t="inlineStr"><is><t>name</t></is></c><c r="B1" t="inlineStr"><is><t>wage</t></is></c>',
+      '<c r="A2" t="inlineStr"><is><t>A</t></is></c><c r="B2"><v>152.375</v></c>',
+    ]);
+
+    assert.deepEqual(await importWages(content), [152.375]);
+  });
+
+  it("reads decimal points in comma separated files", async () => {
+    assert.deepEqual(await importWages("name,wage\nA,152.375\nB,45000\n"), [152.375, 45000]);
+  });
+
+  it("reads thousands separators in semicolon separated files", async () => {
+    assert.deepEqual(await importWages("name;wage\nA;45.000\nB;45.000,50\n"), [45000, 45000.5]);
+  });
+
+  it("follows the separators the other cells show", async () => {
+    assert.deepEqual(await importWages("name\twage\nA\t45.000\nB\t52000,25\n"), [45000, 52000.25]);
+    assert.deepEqual(await importWages("name\twage\nA\t45.000\nB\t52,000.25\n"), [45, 52000.25]);
+  });
+
+  it("rejects numbers the file leaves ambiguous", async () => {
+    await assert.rejects(importWages("name\twage\nA\t45.000\n"), /decimal or a thousands separator/);
+  });
+});
+
+describe("importRoster headers", () => {
+  it("matches Turkish upper-case headers", async () => {
+    const result = await importRoster(
+      new RosterStore(),
+      { content: "İSİM;BRÜT MAAŞ;İŞE GİRİŞ TARİHİ\nAyşe;45.000;01.03.2025\n" },
+      { allowLocalFiles: false }
+    );
+
+    assert.deepEqual(result.columns, {
+      name: "İSİM",
+      wage: "BRÜT MAAŞ",
+      startDate: "İŞE GİRİŞ TARİHİ",
+    });
+  });
+});
+
+describe("RosterStore.resolveBulk", () => {
+  it("drops roster dates for bulk payroll with a warning", async () => {
+    const rosters = new RosterStore();
+    const { rosterId } = await importRoster(
+      rosters,
+      { content: "name,wage,startDate\nA,50000,2025-03-15\nB,60000,\n" },
+      { allowLocalFiles: false }
+    );
+    const { employees, warnings } = rosters.resolveBulk(undefined, rosterId);
+
+    assert.deepEqual(employees, [
+      { name: "A", wage: 50000, calculationType: "Gross" },
+      { name: "B", wage: 60000, calculationType: "Gross" },
+    ]);
+    assert.equal(warnings.length, 1);
+    assert.match(warnings[0], /^Start and end dates of A are ignored/);
+  });
+});
+
+describe("importRoster XLSX archives", () => {
+  const rosters = new RosterStore();
+  const read = (content: string) => importRoster(rosters, { content }, { allowLocalFiles: false });
+  const bomb = deflateRawSync(Buffer.alloc(51 * 1024 * 1024));
+
+  it("rejects files declared above the size limit", async () => {
+    await assert.rejects(
+      read(workbook({ deflated: bomb, declaredSize: 51 * 1024 * 1024 })),
+      /sheet1\.xml is larger than 50 MB/
+    );
+  });
+
+  it("stops inflating files that hide their size", async () => {
+    await assert.rejects(
+      read(workbook({ deflated: bomb, declaredSize: 1024 })),
+      /sheet1\.xml is larger than 50 MB/
+    );
+  });
+
+  it("rejects zip64 archives", async () => {
+    const archive = Buffer.from(xlsx([]), "base64");
+    archive.writeUInt16LE(0xffff, archive.length - 12);
+
+    await assert.rejects(read(archive.toString("base64")), /zip64 archives are not supported/);
+  });
+});
@@ -0,0 +1,543 @@
+/**
+ * Roster import for MCP server
+ *
+ * Rosters exported from HR systems are parsed once, validated row by row
+ * and kept in memory under an ID the bulk and simulation tools accept in
+ * place of an inline employee array.
+ */
+
+import { randomUUID } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import type {
+  EmployeeInput,
+  ImportRosterInput,
+  ImportRosterResult,
+  RosterField,
+  RosterRowError,
+  SimulationEmployeeInput,
+} from "../types/index.js";
+import { ROSTER_COLUMN_ALIASES } from "../types/index.js";
+import { ValidationError } from "../errors.js";
+import { parseCsv, readXlsx, type Cell, type Sheet } from "./spreadsheet.js";
+
+/**
+ * Rosters kept per server; the oldest is dropped beyond this
+ */
+const MAX_ROSTERS = 20;
+
+/**
+ * Employees shown in the import result to check the column mapping
+ */
+const PREVIEW_EMPLOYEES = 3;
+
+/**
+ * Row errors listed when an import is rejected
+ */
+const MAX_REPORTED_ERRORS = 20;
+
+/**
+ * Days between the Excel epoch and 1970-01-01
+ */
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+
+/**
+ * Employee fields a roster column can fill
+ */
+type RosterEmployee = Pick<SimulationEmployeeInput, RosterField>;
+
+/**
+ * Imported rosters of one server (one HTTP session), by roster ID
+ */
+export class RosterStore {
+  private readonly rosters = new Map<string, SimulationEmployeeInput[]>();
+
+  /**
+   * Store a roster and return its ID
+   */
+  save(employees: SimulationEmployeeInput[]): string {
+    const id = randomUUID();
+    this.rosters.set(id, employees);
+    if (this.rosters.size > MAX_ROSTERS) {
+      this.rosters.delete(this.rosters.keys().next().value as string);
+    }
+    return id;
+  }
+
+  /**
+   * Employees of a stored roster
+   */
+  get(id: string): SimulationEmployeeInput[] {
+    const employees = this.rosters.get(id);
+    if (!employees) {
+      throw new ValidationError(`Unknown roster ID ${id}; import the roster again with import_roster`);
+    }
+    return employees;
+  }
+
+  /**
+   * Employees given inline or by roster ID, exactly one of the two
+   */
+  resolve<T>(employees: T[] | undefined, rosterId: string | undefined): Array<T | SimulationEmployeeInput> {
+    if ((employees === undefined) === (rosterId === undefined)) {
+      throw new ValidationError("Specify exactly one of employees or rosterId");
+    }
+    return employees ?? this.get(rosterId as string);
+  }
+
+  /**
+   * Employees for bulk payroll, given inline or by roster ID. Bulk payroll
+   * has no start or end dates, so roster employees with them are listed
+   * in the warnings.
+   */
+  resolveBulk<T>(
+    employees: T[] | undefined,
+    rosterId: string | undefined
+  ): { employees: Array<T | EmployeeInput>; warnings: string[] } {
+    this.resolve(employees, rosterId);
+    if (employees !== undefined) {
+      return { employees, warnings: [] };
+    }
+
+    const roster = this.get(rosterId as string);
+    const dated = roster.filter(
+      (employee) => employee.startDate !== undefined || employee.endDate !== undefined
+    );
+    return {
+      employees: roster.map(toBulkEmployee),
+      warnings:
+        dated.length > 0
+          ? [
+              `Start and end dates of ${dated.map((employee) => employee.name).join(", ")} are ignored: ` +
+                "bulk payroll calculates every period in full. Use simulate_budget to prorate joiners and leavers.",
+            ]
+          : [],
+    };
+  }
+}
+
+/**
+ * Bulk payroll input of a roster employee, without the dates bulk payroll
+ * does not take
+ */
+function toBulkEmployee({
+  startDate,
+  endDate,
+  payEvents,
+  raises,
+  ...employee
+}: SimulationEmployeeInput): EmployeeInput {
+  return employee;
+}
+
+/**
+ * Header text reduced to lowercase ASCII letters and digits. Turkish
+ * letters lose their marks after decomposition, which also drops the
+ * combining dot "İ" keeps when lowercased without Turkish locale data.
+ */
+function normalizeHeader(header: string): string {
+  return header
+    .toLocaleLowerCase("tr-TR")
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .replace(/ı/g, "i")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Decimal separator of the numbers in a roster
+ */
+type DecimalSeparator = NonNullable<Sheet["decimalSeparator"]>;
+
+/**
+ * Number text without spaces and currency symbols
+ */
+function stripNumber(text: string): string {
+  return text.replace(/\s|₺|TL|TRY/gi, "");
+}
+
+/**
+ * Decimal separator a number text shows unambiguously: the last of two
+ * different separators, a separator not followed by exactly three digits,
+ * or the other one when a separator repeats ("1.250.000")
+ */
+function decimalSeparatorOf(text: string): DecimalSeparator | undefined {
+  const value = stripNumber(text);
+  const commas = value.split(",").length - 1;
+  const dots = value.split(".").length - 1;
+  if (commas > 0 && dots > 0) {
+    return value.lastIndexOf(",") > value.lastIndexOf(".") ? "," : ".";
+  }
+  if (commas + dots > 1) {
+    return commas > 0 ? "." : ",";
+  }
+  if (commas + dots === 1 && !/^-?\d{1,3}[.,]\d{3}$/.test(value)) {
+    return commas > 0 ? "," : ".";
+  }
+  return undefined;
+}
+
+/**
+ * Parse a number written with Turkish or English separators, e.g.
+ * "45.000,50", "45,000.50" or "1.250.000". XLSX numeric cells are taken
+ * as they are. A single separator followed by exactly three digits
+ * ("45.000") depends on the roster's decimal separator and is rejected
+ * when that is unknown.
+ */
+function parseNumber(cell: Cell, decimalSeparator?: DecimalSeparator): number {
+  if (typeof cell === "number") {
+    return cell;
+  }
+
+  let value = stripNumber(cell);
+  const separator =
+    decimalSeparatorOf(value) ??
+    (/^-?\d{1,3}[.,]\d{3}$/.test(value) ? decimalSeparator : ".");
+  if (separator === undefined) {
+    throw new ValidationError(
+      `"${cell}" could have a decimal or a thousands separator; write it with decimals or without the thousands separator`
+    );
+  }
+  value =
+    separator === ","
+      ? value.replace(/\./g, "").replace(",", ".")
+      : value.replace(/,/g, "");
+
+  const number = Number(value);
+  if (value === "" || !Number.isFinite(number)) {
+    throw new ValidationError(`"${cell}" is not a number`);
+  }
+  return number;
+}
+
+/**
+ * Parse a date as YYYY-MM-DD, DD.MM.YYYY, DD/MM/YYYY or an Excel date
+ * serial number, returned as YYYY-MM-DD
+ */
+function parseDate(cell: Cell): string {
+  const text = String(cell);
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const local = text.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})$/);
+  if (iso) {
+    [year, month, day] = iso.slice(1).map(Number);
+  } else if (local) {
+    [day, month, year] = local.slice(1).map(Number);
+  } else if (/^\d+(\.\d+)?$/.test(text)) {
+    const date = new Date((Math.floor(Number(text)) - EXCEL_EPOCH_OFFSET_DAYS) * 86400000);
+    [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+  } else {
+    throw new ValidationError(`"${text}" is not a date (use YYYY-MM-DD or DD.MM.YYYY)`);
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new ValidationError(`"${text}" is not a valid date`);
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parser for a value out of a fixed set of (normalized) spellings
+ */
+function oneOf<T>(values: Record<string, T>): (cell: Cell) => T {
+  return (cell) => {
+    const value = values[normalizeHeader(String(cell))];
+    if (value === undefined) {
+      throw new ValidationError(`"${cell}" is not one of ${[...new Set(Object.values(values))].join(", ")}`);
+    }
+    return value;
+  };
+}
+
+/**
+ * Number parser with a lower bound
+ */
+function numberFrom(
+  min: number,
+  exclusive: boolean,
+  integer = false
+): (cell: Cell, decimalSeparator?: DecimalSeparator) => number {
+  return (cell, decimalSeparator) => {
+    const value = parseNumber(cell, decimalSeparator);
+    if (integer && !Number.isInteger(value)) {
+      throw new ValidationError(`${value} is not a whole number`);
+    }
+    if (exclusive ? value <= min : value < min) {
+      throw new ValidationError(`${value} must be ${exclusive ? "greater than" : "at least"} ${min}`);
+    }
+    return value;
+  };
+}
+
+/**
+ * Cell parsers per roster field; number fields get the roster's decimal
+ * separator
+ */
+const FIELD_PARSERS: {
+  [F in RosterField]: (
+    cell: Cell,
+    decimalSeparator?: DecimalSeparator
+  ) => RosterEmployee[F];
+} = {
+  name: (cell) => String(cell),
+  wage: numberFrom(0, true),
+  calculationType: oneOf<"Gross" | "Net">({ gross: "Gross", brut: "Gross", net: "Net" }),
+  ssiType: oneOf<"S4A" | "S4B" | "S4C">({
+    s4a: "S4A",
+    "4a": "S4A",
+    s4b: "S4B",
+    "4b": "S4B",
+    s4c: "S4C",
+    "4c": "S4C",
+  }),
+  wagePeriod: oneOf<"Monthly" | "Daily" | "Hourly">({
+    monthly: "Monthly",
+    aylik: "Monthly",
+    daily: "Daily",
+    gunluk: "Daily",
+    hourly: "Hourly",
+    saatlik: "Hourly",
+  }),
+  workedDays: (cell, decimalSeparator) => {
+    const days = numberFrom(1, false, true)(cell, decimalSeparator);
+    if (days > 30) {
+      throw new ValidationError(`${days} is more than 30 days`);
+    }
+    return days;
+  },
+  workedHours: numberFrom(0, true),
+  startDate: parseDate,
+  endDate: parseDate,
+  cumulativeIncomeTaxBase: numberFrom(0, false),
+  cumulativeMinWageIncomeTaxBase: numberFrom(0, false),
+  transferredSSIBase1: numberFrom(0, false),
+  transferredSSIBase2: numberFrom(0, false),
+};
+
+/**
+ * Fields holding numbers
+ */
+const NUMBER_FIELDS: RosterField[] = [
+  "wage",
+  "workedDays",
+  "workedHours",
+  "cumulativeIncomeTaxBase",
+  "cumulativeMinWageIncomeTaxBase",
+  "transferredSSIBase1",
+  "transferredSSIBase2",
+];
+
+/**
+ * Set a parsed field of a roster employee
+ */
+function setField<F extends RosterField>(
+  employee: Partial<RosterEmployee>,
+  field: F,
+  value: RosterEmployee[F]
+): void {
+  employee[field] = value;
+}
+
+/**
+ * Column index per field: explicit mappings first, then known header names
+ */
+function mapColumns(
+  headers: string[],
+  explicit: ImportRosterInput["columns"] = {}
+): { columns: Map<RosterField, number>; ignored: string[] } {
+  const normalized = headers.map(normalizeHeader);
+  const columns = new Map<RosterField, number>();
+
+  for (const [field, header] of Object.entries(explicit) as Array<[RosterField, string]>) {
+    if (!(field in FIELD_PARSERS)) {
+      throw new ValidationError(`Unknown roster field ${field}; fields are ${Object.keys(FIELD_PARSERS).join(", ")}`);
+    }
+    const index = normalized.indexOf(normalizeHeader(header));
+    if (index < 0) {
+      throw new ValidationError(`Column "${header}" for ${field} not found; columns are ${headers.join(", ")}`);
+    }
+    columns.set(field, index);
+  }
+
+  const taken = new Set(columns.values());
+  for (const [field, aliases] of Object.entries(ROSTER_COLUMN_ALIASES) as Array<[RosterField, string[]]>) {
+    if (columns.has(field)) continue;
+    const index = normalized.findIndex((header, i) => !taken.has(i) && aliases.includes(header));
+    if (index >= 0) {
+      columns.set(field, index);
+      taken.add(index);
+    }
+  }
+
+  for (const field of ["name", "wage"] as RosterField[]) {
+    if (!columns.has(field)) {
+      throw new ValidationError(
+        `No column found for ${field}; map it with columns.${field} (columns are ${headers.join(", ")})`
+      );
+    }
+  }
+
+  return {
+    columns,
+    ignored: headers.filter((header, i) => header.trim() !== "" && !taken.has(i)),
+  };
+}
+
+/**
+ * Decimal separator of a roster: the one its number cells show, or the
+ * one its format implies. Cells showing both leave it unknown.
+ */
+function rosterDecimalSeparator(
+  sheet: Sheet,
+  columns: Map<RosterField, number>
+): DecimalSeparator | undefined {
+  const seen = new Set<DecimalSeparator>();
+  for (const [field, index] of columns) {
+    if (!NUMBER_FIELDS.includes(field)) continue;
+    for (const cells of sheet.rows.slice(1)) {
+      const cell = cells[index];
+      const separator = typeof cell === "string" ? decimalSeparatorOf(cell) : undefined;
+      if (separator) seen.add(separator);
+    }
+  }
+  return seen.size === 0
+    ? sheet.decimalSeparator
+    : seen.size === 1
+      ? [...seen][0]
+      : undefined;
+}
+
+/**
+ * Sheet of the roster file, header row first
+ */
+async function readSheet(
+  input: ImportRosterInput,
+  allowLocalFiles: boolean
+): Promise<Sheet> {
+  if ((input.content === undefined) === (input.path === undefined)) {
+    throw new ValidationError("Specify exactly one of content or path");
+  }
+
+  if (input.path !== undefined) {
+    if (!allowLocalFiles) {
+      throw new ValidationError("Reading local files is disabled on this server; send the file as content instead");
+    }
+    let file: Buffer;
+    try {
+      file = await readFile(input.path);
+    } catch (error) {
+      throw new ValidationError(`Cannot read ${input.path}: ${(error as Error).message}`, { cause: error });
+    }
+    const format = input.format ?? (/^\.xls[xm]$/i.test(extname(input.path)) ? "xlsx" : "csv");
+    return format === "xlsx" ? readXlsx(file, input.sheet) : parseCsv(file.toString("utf8"));
+  }
+
+  const content = input.content as string;
+  // Base64 zip archives start with "UEsDB" (PK\x03\x04)
+  const format = input.format ?? (content.startsWith("UEsDB") ? "xlsx" : "csv");
+  return format === "xlsx"
+    ? readXlsx(Buffer.from(content, "base64"), input.sheet)
+    : parseCsv(content);
+}
+
+/**
+ * Import a CSV or XLSX roster: map its columns to employee fields,
+ * validate every row and store the employees under a roster ID.
+ * Invalid rows reject the import unless skipInvalidRows is set.
+ */
+export async function importRoster(
+  store: RosterStore,
+  input: ImportRosterInput,
+  options: { allowLocalFiles: boolean }
+): Promise<ImportRosterResult> {
+  const sheet = await readSheet(input, options.allowLocalFiles);
+  const [headerCells = [], ...rows] = sheet.rows;
+  const headers = headerCells.map(String);
+  const { columns, ignored } = mapColumns(headers, input.columns);
+  const decimalSeparator = rosterDecimalSeparator(sheet, columns);
+
+  const employees: SimulationEmployeeInput[] = [];
+  const errors: RosterRowError[] = [];
+
+  rows.forEach((cells, i) => {
+    if (cells.every((cell) => String(cell).trim() === "")) return;
+    const row = i + 2;
+    const fields: Partial<RosterEmployee> = {};
+    let valid = true;
+
+    for (const [field, index] of columns) {
+      const cell = cells[index] ?? "";
+      if (typeof cell === "string" && cell.trim() === "") {
+        if (field === "name" || field === "wage") {
+          errors.push({ row, column: headers[index], message: `Missing ${field}` });
+          valid = false;
+        }
+        continue;
+      }
+      try {
+        setField(
+          fields,
+          field,
+          FIELD_PARSERS[field](typeof cell === "string" ? cell.trim() : cell, decimalSeparator)
+        );
+      } catch (error) {
+        errors.push({ row, column: headers[index], message: (error as Error).message });
+        valid = false;
+      }
+    }
+
+    if (valid && fields.wagePeriod === "Hourly" && fields.workedHours === undefined) {
+      errors.push({ row, message: "Hourly wages need workedHours" });
+      valid = false;
+    }
+    if (
+      valid &&
+      fields.startDate !== undefined &&
+      fields.endDate !== undefined &&
+      fields.endDate < fields.startDate
+    ) {
+      errors.push({ row, message: "endDate is before startDate" });
+      valid = false;
+    }
+
+    // Name and wage are set on valid rows, which report them missing
+    const { name, wage } = fields;
+    if (valid && name !== undefined && wage !== undefined) {
+      employees.push({
+        ...fields,
+        name,
+        wage,
+        calculationType: fields.calculationType ?? input.defaultCalculationType ?? "Gross",
+      });
+    }
+  });
+
+  if (errors.length > 0 && !input.skipInvalidRows) {
+    const listed = errors
+      .slice(0, MAX_REPORTED_ERRORS)
+      .map((error) => `Row ${error.row}${error.column ? ` (${error.column})` : ""}: ${error.message}`);
+    if (errors.length > MAX_REPORTED_ERRORS) {
+      listed.push(`... and ${errors.length - MAX_REPORTED_ERRORS} more`);
+    }
+    throw new ValidationError(`The roster has invalid rows:\n${listed.join("\n")}`);
+  }
+  if (employees.length === 0) {
+    throw new ValidationError("The roster has no valid employees");
+  }
+
+  return {
+    rosterId: store.save(employees),
+    ...(input.name !== undefined && { name: input.name }),
+    employeeCount: employees.length,
+    columns: Object.fromEntries(
+      [...columns].map(([field, index]) => [field, headers[index]])
+    ),
+    ignoredColumns: ignored,
+    ...(errors.length > 0 && { skippedRows: errors }),
+    preview: employees.slice(0, PREVIEW_EMPLOYEES),
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * Reverse wage solver for MCP server
+ */
+
+import type { PayrollCalculator } from "../engine/index.js";
+import type {
+  CalculatePayrollResult,
+  SolveWageInput,
+  SolveWageResult,
+  WageTarget,
+} from "../types/index.js";
+import { ValidationError } from "../errors.js";
+import { calculatePayroll } from "./calculate.js";
+
+/**
+ * Default tolerance on the target metric in TL
+ */
+const DEFAULT_TOLERANCE = 1;
+
+/**
+ * Stop once the wage interval is narrower than this
+ */
+const MIN_WAGE_STEP = 0.01;
+
+const MAX_ITERATIONS = 60;
+
+/**
+ * Read the targeted metric from a payroll result
+ */
+function measure(result: CalculatePayrollResult, target: WageTarget): number {
+  const total = result.periods.reduce((sum, period) => {
+    switch (target.metric) {
+      case "employerCost":
+        return sum + period.employerCost;
+      case "netWage":
+        return sum + period.netWage;
+      case "grossWage":
+        return sum + period.grossWage;
+    }
+  }, 0);
+
+  return target.scope === "total" ? total : total / result.periods.length;
+}
+
+/**
+ * Find the wage that meets a target employer cost, net or gross, monthly
+ * (averaged over the periods) or in total. The metric grows with the wage,
+ * so the solver brackets the target and bisects.
+ */
+export async function solveWage(
+  client: PayrollCalculator,
+  input: SolveWageInput
+): Promise<SolveWageResult> {
+  const { target, tolerance = DEFAULT_TOLERANCE, ...payrollInput } = input;
+
+  if (target.value <= 0) {
+    throw new ValidationError("Target value must be positive");
+  }
+
+  let iterations = 0;
+  const evaluate = async (wage: number) => {
+    iterations++;
+    const result = await calculatePayroll(client, {
+      ...payrollInput,
+      name: input.name ?? "Solved wage",
+      wage,
+    });
+    return { wage, result, achieved: measure(result, target) };
+  };
+
+  // Bracket the target: the monthly target is a natural starting guess
+  const periodCount = input.periodCount ?? 1;
+  const monthlyTarget =
+    target.scope === "total" ? target.value / periodCount : target.value;
+
+  let low = 0;
+  let high = await evaluate(monthlyTarget);
+  while (high.achieved < target.value) {
+    if (iterations >= MAX_ITERATIONS) {
+      throw new ValidationError("Could not bracket the target wage");
+    }
+    low = high.wage;
+    high = await evaluate(high.wage * 2);
+  }
+
+  let best = high;
+  while (
+    Math.abs(best.achieved - target.value) > tolerance &&
+    high.wage - low > MIN_WAGE_STEP &&
+    iterations < MAX_ITERATIONS
+  ) {
+    const mid = await evaluate((low + high.wage) / 2);
+    if (mid.achieved < target.value) {
+      low = mid.wage;
+    } else {
+      high = mid;
+    }
+    if (
+      Math.abs(mid.achieved - target.value) <
+      Math.abs(best.achieved - target.value)
+    ) {
+      best = mid;
+    }
+  }
+
+  return {
+    wage: best.wage,
+    calculationType: input.calculationType,
+    target: { ...target, scope: target.scope ?? "monthly" },
+    achieved: best.achieved,
+    converged: Math.abs(best.achieved - target.value) <= tolerance,
+    iterations,
+    payroll: best.result,
+  };
+}
@@ -0,0 +1,350 @@
+/**
+ * CSV and XLSX readers for roster import
+ *
+ * Both return the sheet as rows of cells: text, or the value of an XLSX
+ * numeric cell. XLSX files are read with node:zlib only: the zip
+ * directory, the shared strings and one worksheet.
+ */
+
+import { inflateRawSync } from "node:zlib";
+
+import { ValidationError } from "../errors.js";
+
+/**
+ * Cell of a sheet: its text, or the value of an XLSX numeric cell
+ */
+export type Cell = string | number;
+
+/**
+ * Rows of a sheet, with the decimal separator its format implies if any
+ */
+export interface Sheet {
+  rows: Cell[][];
+  decimalSeparator?: "," | ".";
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/**
+ * Largest uncompressed size of a file read from an XLSX archive. Worksheets
+ * of large rosters stay far below it; zip bombs are stopped at it.
+ */
+const MAX_UNCOMPRESSED_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Field values that mark a zip64 archive, whose real values live elsewhere
+ */
+const ZIP64_COUNT = 0xffff;
+const ZIP64_SIZE = 0xffffffff;
+
+/**
+ * Pick the delimiter that splits the header line into the most columns
+ */
+function detectDelimiter(text: string): string {
+  const header = text.slice(0, text.search(/\r?\n|$/));
+  let best = ",";
+  let bestCount = 0;
+  for (const delimiter of [",", ";", "\t"]) {
+    const count = header.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Parse CSV text (RFC 4180 quoting). The delimiter is detected from the
+ * header line: comma, semicolon (common in Turkish Excel exports) or tab.
+ * Semicolons imply decimal commas and commas imply decimal points.
+ */
+export function parseCsv(text: string): Sheet {
+  const input = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new ValidationError("Invalid CSV: unterminated quoted field");
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  const decimalSeparators: Record<string, Sheet["decimalSeparator"]> = {
+    ";": ",",
+    ",": ".",
+  };
+  return { rows, decimalSeparator: decimalSeparators[delimiter] };
+}
+
+/**
+ * Read the files in a zip archive. Zip64, multi-disk and encrypted
+ * archives are rejected, as are files above MAX_UNCOMPRESSED_SIZE.
+ */
+function readZip(buffer: Buffer): Map<string, () => Buffer> {
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new ValidationError("Invalid XLSX: not a zip archive");
+  }
+
+  const files = new Map<string, () => Buffer>();
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  if (count === ZIP64_COUNT || offset === ZIP64_SIZE) {
+    throw new ValidationError(
+      "Unsupported XLSX: zip64 archives are not supported; save the workbook again as a regular .xlsx file"
+    );
+  }
+  if (buffer.readUInt16LE(end + 4) !== 0 || buffer.readUInt16LE(end + 6) !== 0) {
+    throw new ValidationError("Unsupported XLSX: multi-part zip archives are not supported");
+  }
+
+  for (let i = 0; i < count; i++) {
+    if (
+      offset + 46 > buffer.length ||
+      buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY
+    ) {
+      throw new ValidationError("Invalid XLSX: corrupt zip directory");
+    }
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    files.set(name, () => {
+      if (flags & 1) {
+        throw new ValidationError("Unsupported XLSX: the workbook is password protected");
+      }
+      if (
+        compressedSize === ZIP64_SIZE ||
+        uncompressedSize === ZIP64_SIZE ||
+        localOffset === ZIP64_SIZE
+      ) {
+        throw new ValidationError(
+          "Unsupported XLSX: zip64 archives are not supported; save the workbook again as a regular .xlsx file"
+        );
+      }
+      if (uncompressedSize > MAX_UNCOMPRESSED_SIZE) {
+        throw new ValidationError(`Unsupported XLSX: ${name} is larger than ${MAX_UNCOMPRESSED_SIZE / 1024 / 1024} MB`);
+      }
+      if (
+        localOffset + 30 > buffer.length ||
+        buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER
+      ) {
+        throw new ValidationError(`Invalid XLSX: corrupt zip entry ${name}`);
+      }
+      const start =
+        localOffset +
+        30 +
+        buffer.readUInt16LE(localOffset + 26) +
+        buffer.readUInt16LE(localOffset + 28);
+      const data = buffer.subarray(start, start + compressedSize);
+      if (method === 0) return data;
+      if (method !== 8) {
+        throw new ValidationError(`Unsupported XLSX: unsupported compression in ${name}`);
+      }
+      // The declared size can lie, so inflating stops at the limit too
+      try {
+        return inflateRawSync(data, { maxOutputLength: MAX_UNCOMPRESSED_SIZE });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+          throw new ValidationError(`Unsupported XLSX: ${name} is larger than ${MAX_UNCOMPRESSED_SIZE / 1024 / 1024} MB`);
+        }
+        throw new ValidationError(`Invalid XLSX: corrupt zip entry ${name}`);
+      }
+    });
+  }
+
+  return files;
+}
+
+/**
+ * Decode XML character entities
+ */
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case "amp":
+        return "&";
+      case "lt":
+        return "<";
+      case "gt":
+        return ">";
+      case "quot":
+        return '"';
+      case "apos":
+        return "'";
+      default:
+        return String.fromCodePoint(
+          entity[1] === "x" ? parseInt(entity.slice(2), 16) : Number(entity.slice(1))
+        );
+    }
+  });
+}
+
+/**
+ * Text of every <t> element in a fragment, e.g. a rich text string
+ */
+function textContent(xml: string): string {
+  let text = "";
+  for (const match of xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)) {
+    text += decodeXml(match[1]);
+  }
+  return text;
+}
+
+/**
+ * Attribute value from an element's attribute list
+ */
+function attribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`(?:^|\\s)${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+/**
+ * Zero-based column index of a cell reference such as "AB12"
+ */
+function columnIndex(ref: string): number {
+  let index = 0;
+  for (const char of ref.replace(/\d+$/, "")) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Read a worksheet of an XLSX workbook: the named sheet, or the first one
+ */
+export function readXlsx(buffer: Buffer, sheetName?: string): Sheet {
+  const files = readZip(buffer);
+  const read = (path: string) => {
+    const file = files.get(path);
+    if (!file) {
+      throw new ValidationError(`Invalid XLSX: missing ${path}`);
+    }
+    return file().toString("utf8");
+  };
+
+  const sheets = [
+    ...read("xl/workbook.xml").matchAll(/<sheet\b([^>]*?)\/?>/g),
+  ].map((match) => ({
+    name: attribute(match[1], "name") ?? "",
+    relationId: attribute(match[1], "r:id") ?? "",
+  }));
+  const sheet = sheetName
+    ? sheets.find((s) => s.name === sheetName)
+    : sheets[0];
+  if (!sheet) {
+    throw new ValidationError(
+      sheetName
+        ? `Sheet "${sheetName}" not found; available sheets: ${sheets.map((s) => s.name).join(", ")}`
+        : "The workbook has no sheets"
+    );
+  }
+
+  const relation = [
+    ...read("xl/_rels/workbook.xml.rels").matchAll(/<Relationship\b([^>]*?)\/?>/g),
+  ].find((match) => attribute(match[1], "Id") === sheet.relationId);
+  const target = relation && attribute(relation[1], "Target");
+  if (!target) {
+    throw new ValidationError(`Invalid XLSX: no worksheet for sheet "${sheet.name}"`);
+  }
+  const sheetPath = target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+
+  const sharedStrings = files.has("xl/sharedStrings.xml")
+    ? [...read("xl/sharedStrings.xml").matchAll(/<si>([\s\S]*?)<\/si>/g)].map(
+        (match) => textContent(match[1])
+      )
+    : [];
+
+  const rows: Cell[][] = [];
+  for (const rowMatch of read(sheetPath).matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(attribute(rowMatch[1], "r") ?? rows.length + 1);
+    const row: Cell[] = [];
+    let next = 0;
+    for (const cellMatch of (rowMatch[2] ?? "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const ref = attribute(cellMatch[1], "r");
+      const index = ref ? columnIndex(ref) : next;
+      next = index + 1;
+
+      const body = cellMatch[2] ?? "";
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      let value: Cell;
+      switch (attribute(cellMatch[1], "t")) {
+        case "s":
+          value = sharedStrings[Number(raw)] ?? "";
+          break;
+        case "inlineStr":
+          value = textContent(body);
+          break;
+        case "b":
+          value = raw === "1" ? "TRUE" : "FALSE";
+          break;
+        case "d":
+          // ISO 8601 date cells
+          value = raw === undefined ? "" : raw.slice(0, 10);
+          break;
+        case "str":
+        case "e":
+          value = raw === undefined ? "" : decodeXml(raw);
+          break;
+        default:
+          // Numeric cells, which also hold dates as serial numbers
+          value = raw === undefined ? "" : Number(raw);
+      }
+
+      while (row.length < index) row.push("");
+      row[index] = value;
+    }
+
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows[rowNumber - 1] = row;
+  }
+
+  return { rows };
+}
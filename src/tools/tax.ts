@@ -0,0 +1,31 @@
+/**
+ * Income tax helpers for MCP server
+ */
+
+/**
+ * Progressive tax on a cumulative amount
+ */
+function taxOn(
+  amount: number,
+  brackets: Array<{ limit: number; rate: number }>
+): number {
+  let tax = 0;
+  let lower = 0;
+  for (const { limit, rate } of brackets) {
+    if (amount <= lower) break;
+    tax += (Math.min(amount, limit) - lower) * rate;
+    lower = limit;
+  }
+  return tax;
+}
+
+/**
+ * Tax on an amount added on top of an existing cumulative base
+ */
+export function incrementalTax(
+  cumulative: number,
+  amount: number,
+  brackets: Array<{ limit: number; rate: number }>
+): number {
+  return taxOn(cumulative + amount, brackets) - taxOn(cumulative, brackets);
+}
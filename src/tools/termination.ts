@@ -0,0 +1,254 @@
+/**
+ * Termination cost tool for MCP server
+ */
+
+import type { PayrollCalculator } from "../engine/index.js";
+import type {
+  CalculateTerminationCostInput,
+  CalculateTerminationCostResult,
+  PeriodResult,
+  TerminationComponent,
+  TerminationComponentType,
+} from "../types/index.js";
+import { SSI_MONTH_DAYS } from "../types/index.js";
+import { ValidationError } from "../errors.js";
+import { calculatePayroll } from "./calculate.js";
+import { resolveParams, resolveSeveranceCeiling } from "./registry.js";
+import { incrementalTax } from "./tax.js";
+
+/**
+ * Severance accrues 30 days' wage per 365 days of service
+ */
+const DAYS_PER_YEAR = 365;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Notice periods by length of service (Labour Law article 17)
+ */
+const NOTICE_PERIODS = [
+  { minMonths: 36, weeks: 8 },
+  { minMonths: 18, weeks: 6 },
+  { minMonths: 6, weeks: 4 },
+  { minMonths: 0, weeks: 2 },
+];
+
+/**
+ * Parse a "YYYY-MM-DD" date as UTC midnight
+ */
+function parseDate(date: string): Date {
+  const parsed = new Date(`${date}T00:00:00Z`);
+  if (Number.isNaN(parsed.getTime())) {
+    throw new ValidationError(`Invalid date ${date}: expected YYYY-MM-DD`);
+  }
+  return parsed;
+}
+
+/**
+ * Same day a number of months later
+ */
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return result;
+}
+
+/**
+ * Difference between two payroll periods as a component
+ */
+function periodDifference(
+  type: TerminationComponentType,
+  period: PeriodResult,
+  baseline: PeriodResult | undefined,
+  taxTreatment: string
+): TerminationComponent {
+  const diff = (pick: (p: PeriodResult) => number) =>
+    pick(period) - (baseline ? pick(baseline) : 0);
+  return {
+    type,
+    gross: diff((p) => p.grossWage),
+    incomeTax: diff((p) => p.incomeTax),
+    stampTax: diff((p) => p.stampTax),
+    employeeSSI: diff((p) => p.employeeSSI),
+    net: diff((p) => p.netWage),
+    employerCost: diff((p) => p.employerCost),
+    taxTreatment,
+  };
+}
+
+/**
+ * Calculate the cost of terminating an employee: the final month's wage,
+ * unused leave paid with it, notice pay (ihbar tazminatı) and severance pay
+ * (kıdem tazminatı). Wage and leave go through calculatePayroll; notice pay
+ * is taxed on top of the final month's cumulative income tax base.
+ */
+export async function calculateTerminationCost(
+  client: PayrollCalculator,
+  input: CalculateTerminationCostInput
+): Promise<CalculateTerminationCostResult> {
+  const {
+    name,
+    hireDate,
+    terminationDate,
+    lastGrossWage,
+    monthlyBenefits = 0,
+    unusedLeaveDays = 0,
+    severanceEligible = true,
+    payNotice = true,
+    customParams,
+  } = input;
+
+  const hire = parseDate(hireDate);
+  const end = parseDate(terminationDate);
+  if (end < hire) {
+    throw new ValidationError("Termination date is before the hire date");
+  }
+
+  const serviceDays = Math.round((end.getTime() - hire.getTime()) / MS_PER_DAY) + 1;
+  const noticeWeeks = NOTICE_PERIODS.find(
+    (p) => addMonths(hire, p.minMonths) <= end
+  )!.weeks;
+
+  const year = end.getUTCFullYear();
+  const month = end.getUTCMonth() + 1;
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const workedDays = Math.min(
+    end.getUTCDate() === daysInMonth ? SSI_MONTH_DAYS : end.getUTCDate(),
+    serviceDays,
+    SSI_MONTH_DAYS
+  );
+
+  const warnings: string[] = [];
+  const components: TerminationComponent[] = [];
+
+  // Final month: wage for the days worked, then again with unused leave
+  const payrollInput = {
+    name,
+    wage: lastGrossWage,
+    calculationType: "Gross" as const,
+    ssiType: input.ssiType,
+    year,
+    month,
+    customParams,
+    cumulativeIncomeTaxBase: input.cumulativeIncomeTaxBase,
+    cumulativeMinWageIncomeTaxBase: input.cumulativeMinWageIncomeTaxBase,
+    transferredSSIBase1: input.transferredSSIBase1,
+    transferredSSIBase2: input.transferredSSIBase2,
+    workedDays,
+  };
+  const wageOnly = (await calculatePayroll(client, payrollInput)).periods[0];
+  components.push({
+    ...periodDifference(
+      "finalMonthWage",
+      wageOnly,
+      undefined,
+      "Regular wage: SSI, income tax and stamp tax, with the minimum wage exemption"
+    ),
+    days: workedDays,
+  });
+
+  let finalPayroll = wageOnly;
+  if (unusedLeaveDays > 0) {
+    finalPayroll = (
+      await calculatePayroll(client, {
+        ...payrollInput,
+        extraPayments: [
+          {
+            name: "Unused leave",
+            amount: (lastGrossWage / SSI_MONTH_DAYS) * unusedLeaveDays,
+            type: "Gross",
+            paymentType: "ExtraPay",
+          },
+        ],
+      })
+    ).periods[0];
+    components.push({
+      ...periodDifference(
+        "unusedLeave",
+        finalPayroll,
+        wageOnly,
+        "Paid with the final wage: SSI, income tax and stamp tax"
+      ),
+      days: unusedLeaveDays,
+    });
+  }
+
+  const { params } = resolveParams(year, month);
+  const brackets = customParams?.incomeTaxLimits ?? params.incomeTaxBrackets;
+  const stampTaxRatio = customParams?.stampTaxRatio ?? params.stampTaxRatio;
+  // Notice and severance pay use the wage including regular benefits
+  const dressedWage = lastGrossWage + monthlyBenefits;
+
+  // Notice pay in lieu of notice: income and stamp tax, no SSI
+  if (payNotice) {
+    const noticeDays = noticeWeeks * 7;
+    const gross = (dressedWage / SSI_MONTH_DAYS) * noticeDays;
+    const incomeTax = incrementalTax(
+      finalPayroll.cumulativeIncomeTaxBase,
+      gross,
+      brackets
+    );
+    const stampTax = gross * stampTaxRatio;
+    components.push({
+      type: "notice",
+      gross,
+      incomeTax,
+      stampTax,
+      employeeSSI: 0,
+      net: gross - incomeTax - stampTax,
+      employerCost: gross,
+      taxTreatment: "Income tax and stamp tax; no SSI",
+      days: noticeDays,
+    });
+  }
+
+  // Severance: 30 days of the wage, capped at the ceiling, per year served
+  const resolved =
+    input.severanceCeiling !== undefined
+      ? {
+          ceiling: { effectiveFrom: terminationDate, amount: input.severanceCeiling },
+          warnings: [],
+        }
+      : resolveSeveranceCeiling(terminationDate);
+  const { ceiling } = resolved;
+
+  if (severanceEligible && serviceDays < DAYS_PER_YEAR) {
+    warnings.push("No severance pay: it requires at least one year of service");
+  } else if (severanceEligible) {
+    warnings.push(...resolved.warnings);
+    const gross =
+      Math.min(dressedWage, ceiling.amount) *
+      (serviceDays / DAYS_PER_YEAR);
+    const stampTax = gross * stampTaxRatio;
+    components.push({
+      type: "severance",
+      gross,
+      incomeTax: 0,
+      stampTax,
+      employeeSSI: 0,
+      net: gross - stampTax,
+      employerCost: gross,
+      taxTreatment:
+        "Stamp tax only; exempt from income tax and SSI, with the wage capped at the severance ceiling",
+    });
+  }
+
+  const sum = (pick: (c: TerminationComponent) => number) =>
+    components.reduce((total, c) => total + pick(c), 0);
+
+  return {
+    employee: name,
+    serviceDays,
+    noticeWeeks,
+    severanceCeiling: ceiling,
+    components,
+    totalGross: sum((c) => c.gross),
+    totalNet: sum((c) => c.net),
+    totalEmployerCost: sum((c) => c.employerCost),
+    terminationCost: sum((c) =>
+      c.type === "finalMonthWage" ? 0 : c.employerCost
+    ),
+    finalPayroll,
+    ...(warnings.length > 0 && { warnings }),
+  };
+}
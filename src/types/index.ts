@@ -2,6 +2,8 @@
  * Type definitions for Payrolla MCP Server
  */
 
+import type { PayrollaErrorDetails } from "../errors.js";
+
 // ============ Input Types ============
 
 /**
@@ -12,8 +14,16 @@ export interface ExtraPayment {
   amount: number;
   type: "Net" | "Gross";
   paymentType?: "RegularPayment" | "Overtime" | "SocialAid" | "ExtraPay" | 1 | 2 | 3 | 4;
+  benefitType?: BenefitType;
 }
 
+/**
+ * Fringe benefits with their own income tax and SSI exemptions: meal
+ * cards, transport allowance, private health insurance and employer
+ * pension (BES) contributions
+ */
+export type BenefitType = "Meal" | "Transport" | "PrivateHealth" | "PrivatePension";
+
 /**
  * Pay event representing an extra payment at a specific month
  * Example: Quarter-end bonus, annual bonus, one-time payment
@@ -25,6 +35,7 @@ export interface PayEvent {
   amount: number;
   type: "Net" | "Gross";
   paymentType?: "RegularPayment" | "Overtime" | "SocialAid" | "ExtraPay" | 1 | 2 | 3 | 4;
+  benefitType?: BenefitType;
 }
 
 /**
@@ -32,12 +43,97 @@ export interface PayEvent {
  */
 export interface CustomParams {
   minWage?: number;
+  minWageNet?: number;
   ssiLowerLimit?: number;
   ssiUpperLimit?: number;
   stampTaxRatio?: number;
   incomeTaxLimits?: Array<{ limit: number; rate: number }>;
+  mealExemptionDaily?: number;
+  transportExemptionDaily?: number;
+}
+
+/**
+ * Employer SSI incentive codes
+ */
+export type IncentiveCode = "5510" | "6111";
+
+/**
+ * Employer SSI incentive active between two months (inclusive, "YYYY-MM");
+ * without an end date it runs indefinitely
+ */
+export interface SSIIncentive {
+  code: IncentiveCode;
+  startDate: string;
+  endDate?: string;
+}
+
+/**
+ * Overtime categories: Overtime is work beyond 45 hours a week (fazla
+ * çalışma), ExtraHours is work beyond a shorter contractual week up to 45
+ * hours (fazla sürelerle çalışma), Holiday is work on national and public
+ * holidays
+ */
+export type OvertimeType = "Overtime" | "ExtraHours" | "Holiday";
+
+/**
+ * Overtime hours worked in a month; without a year and month they repeat
+ * every period
+ */
+export interface OvertimeHours {
+  type: OvertimeType;
+  hours: number;
+  year?: number;
+  month?: number;
 }
 
+/**
+ * Days not worked in a month; without a year and month they repeat every
+ * period. All of them reduce the SSI days. Unpaid leave and missing days
+ * are not paid; sick days are paid by SGK as temporary incapacity
+ * allowance unless `sickPayOffset` is set, in which case the employer keeps
+ * paying the wage and offsets the allowance against its cost.
+ */
+export interface Attendance {
+  year?: number;
+  month?: number;
+  unpaidLeaveDays?: number;
+  sickLeaveDays?: number;
+  missingDays?: number;
+  sickPayOffset?: boolean;
+}
+
+/**
+ * Deductions taken from the net wage after taxes
+ */
+export type DeductionType = "Garnishment" | "Advance" | "UnionDues";
+
+/**
+ * Deduction taken from the net wage every period. Garnishments withhold
+ * at most a quarter of the net wage and default to that quarter. With a
+ * balance, the deduction stops once the balance has been repaid.
+ */
+export interface Deduction {
+  name: string;
+  type: DeductionType;
+  amount?: number;
+  balance?: number;
+}
+
+/**
+ * Private pension (BES) auto-enrolment: the employee contributes a share of
+ * their SSI base (3% by default) unless they opted out
+ */
+export interface PensionAutoEnrolment {
+  optedOut?: boolean;
+  rate?: number;
+}
+
+/**
+ * Unit a wage is paid in. Daily and hourly wages are multiplied by the
+ * days or hours worked in the month.
+ */
+export type WagePeriod = "Monthly" | "Daily" | "Hourly";
+
 /**
  * Employee data for single calculation
  */
@@ -47,6 +143,14 @@ export interface EmployeeInput {
   calculationType: "Gross" | "Net";
   ssiType?: "S4A" | "S4B" | "S4C";
   extraPayments?: ExtraPayment[];
+  incentives?: SSIIncentive[];
+  wagePeriod?: WagePeriod;
+  workedDays?: number;
+  workedHours?: number;
+  overtime?: OvertimeHours[];
+  attendance?: Attendance[];
+  deductions?: Deduction[];
+  pensionAutoEnrolment?: PensionAutoEnrolment;
   cumulativeIncomeTaxBase?: number;
   cumulativeMinWageIncomeTaxBase?: number;
   transferredSSIBase1?: number;
@@ -66,10 +170,19 @@ export interface CalculatePayrollInput {
   periodCount?: number;
   extraPayments?: ExtraPayment[];
   customParams?: CustomParams;
+  incentives?: SSIIncentive[];
   cumulativeIncomeTaxBase?: number;
   cumulativeMinWageIncomeTaxBase?: number;
+  basesYear?: number;
   transferredSSIBase1?: number;
   transferredSSIBase2?: number;
+  wagePeriod?: WagePeriod;
+  workedDays?: number;
+  workedHours?: number;
+  overtime?: OvertimeHours[];
+  attendance?: Attendance[];
+  deductions?: Deduction[];
+  pensionAutoEnrolment?: PensionAutoEnrolment;
 }
 
 /**
@@ -81,6 +194,27 @@ export interface CalculateBulkPayrollInput {
   month: number;
   periodCount?: number;
   customParams?: CustomParams;
+  allowPartialResults?: boolean;
+}
+
+/**
+ * Parameter change taking effect from a specific month.
+ * Example: minimum wage raised in July, new tax brackets from January
+ */
+export interface ParameterChange extends CustomParams {
+  year: number;
+  month: number;
+}
+
+/**
+ * Salary raise taking effect from a specific month.
+ * Either a percentage or an absolute amount added to the wage
+ */
+export interface RaiseStep {
+  year: number;
+  month: number;
+  percent?: number;
+  amount?: number;
 }
 
 /**
@@ -90,52 +224,219 @@ export interface ScenarioConfig {
   name?: string;
   salaryRaisePercent?: number;
   minWage?: number;
+  minWageNet?: number;
   taxLimitIncreasePercent?: number;
   ssiLimitIncreasePercent?: number;
   customTaxBrackets?: Array<{ limit: number; rate: number }>;
+  parameterChanges?: ParameterChange[];
+  raiseSchedule?: RaiseStep[];
+  autoLiftToMinWage?: boolean;
+  dropIncentives?: IncentiveCode[];
+}
+
+/**
+ * Employee data for budget simulation and scenario comparison
+ */
+export interface SimulationEmployeeInput {
+  name: string;
+  wage: number;
+  calculationType: "Gross" | "Net";
+  ssiType?: "S4A" | "S4B" | "S4C";
+  payEvents?: PayEvent[];
+  raises?: RaiseStep[];
+  incentives?: SSIIncentive[];
+  wagePeriod?: WagePeriod;
+  workedDays?: number;
+  workedHours?: number;
+  overtime?: OvertimeHours[];
+  attendance?: Attendance[];
+  startDate?: string;
+  endDate?: string;
+  cumulativeIncomeTaxBase?: number;
+  cumulativeMinWageIncomeTaxBase?: number;
+  transferredSSIBase1?: number;
+  transferredSSIBase2?: number;
 }
 
 /**
  * Input for budget simulation
  */
 export interface SimulateBudgetInput {
-  employees: Array<{
-    name: string;
-    wage: number;
-    calculationType: "Gross" | "Net";
-    ssiType?: "S4A" | "S4B" | "S4C";
-    payEvents?: PayEvent[];
-  }>;
+  employees: SimulationEmployeeInput[];
+  plannedHires?: PlannedHire[];
   year: number;
+  month?: number;
   periodCount: number;
   scenario: ScenarioConfig;
 }
 
+/**
+ * Placeholder for planned hires sharing a role, wage and start date
+ */
+export interface PlannedHire
+  extends Omit<SimulationEmployeeInput, "name" | "startDate"> {
+  role: string;
+  count?: number;
+  startDate: string;
+}
+
 /**
  * Input for scenario comparison
  */
 export interface CompareScenariosInput {
-  employees: Array<{
-    name: string;
-    wage: number;
-    calculationType: "Gross" | "Net";
-    ssiType?: "S4A" | "S4B" | "S4C";
-    payEvents?: PayEvent[];
-  }>;
+  employees: SimulationEmployeeInput[];
   year: number;
+  month?: number;
   periodCount: number;
   scenarios: ScenarioConfig[];
 }
 
+/**
+ * Assumptions for a single projected year
+ */
+export interface ProjectionYearAssumption {
+  year: number;
+  raisePercent?: number;
+  minWage?: number;
+  taxLimitIncreasePercent?: number;
+  ssiLimitIncreasePercent?: number;
+}
+
+/**
+ * Input for multi-year budget projection
+ */
+export interface ProjectMultiYearInput {
+  employees: SimulationEmployeeInput[];
+  startYear: number;
+  endYear: number;
+  assumptions?: ProjectionYearAssumption[];
+}
+
+/**
+ * Target for the wage solver
+ */
+export interface WageTarget {
+  metric: "employerCost" | "netWage" | "grossWage";
+  value: number;
+  scope?: "monthly" | "total";
+}
+
+/**
+ * Input for solving the wage that meets a target
+ */
+export interface SolveWageInput {
+  name?: string;
+  calculationType: "Gross" | "Net";
+  target: WageTarget;
+  ssiType?: "S4A" | "S4B" | "S4C";
+  year: number;
+  month: number;
+  periodCount?: number;
+  extraPayments?: ExtraPayment[];
+  customParams?: CustomParams;
+  incentives?: SSIIncentive[];
+  cumulativeIncomeTaxBase?: number;
+  cumulativeMinWageIncomeTaxBase?: number;
+  transferredSSIBase1?: number;
+  transferredSSIBase2?: number;
+  tolerance?: number;
+}
+
+/**
+ * Rules for distributing a raise pool
+ */
+export interface RaisePoolRules {
+  minPercent?: number;
+  maxPercent?: number;
+  topEarnerCap?: { threshold: number; maxPercent: number };
+  prioritizeLowestPaid?: boolean;
+}
+
+/**
+ * Input for allocating a raise pool
+ */
+export interface AllocateRaisePoolInput {
+  employees: SimulationEmployeeInput[];
+  pool: number;
+  year: number;
+  month?: number;
+  periodCount: number;
+  rules?: RaisePoolRules;
+  scenario?: Omit<ScenarioConfig, "salaryRaisePercent" | "raiseSchedule">;
+  tolerance?: number;
+}
+
+/**
+ * Input for termination cost calculation
+ */
+export interface CalculateTerminationCostInput {
+  name: string;
+  hireDate: string;
+  terminationDate: string;
+  lastGrossWage: number;
+  monthlyBenefits?: number;
+  unusedLeaveDays?: number;
+  severanceEligible?: boolean;
+  payNotice?: boolean;
+  severanceCeiling?: number;
+  ssiType?: "S4A" | "S4B" | "S4C";
+  customParams?: CustomParams;
+  cumulativeIncomeTaxBase?: number;
+  cumulativeMinWageIncomeTaxBase?: number;
+  transferredSSIBase1?: number;
+  transferredSSIBase2?: number;
+}
+
+/**
+ * Employee fields a roster column can map to
+ */
+export type RosterField =
+  | "name"
+  | "wage"
+  | "calculationType"
+  | "ssiType"
+  | "wagePeriod"
+  | "workedDays"
+  | "workedHours"
+  | "startDate"
+  | "endDate"
+  | "cumulativeIncomeTaxBase"
+  | "cumulativeMinWageIncomeTaxBase"
+  | "transferredSSIBase1"
+  | "transferredSSIBase2";
+
+/**
+ * Input for roster import: CSV text or base64 XLSX content, or a local file
+ */
+export interface ImportRosterInput {
+  content?: string;
+  path?: string;
+  format?: "csv" | "xlsx";
+  sheet?: string;
+  name?: string;
+  columns?: Partial<Record<RosterField, string>>;
+  defaultCalculationType?: "Gross" | "Net";
+  skipInvalidRows?: boolean;
+}
+
 /**
  * Input for getting default parameters
  */
 export interface GetDefaultParamsInput {
   year: number;
+  month?: number;
 }
 
 // ============ Output Types ============
 
+/**
+ * Carried base that was reset or expired before a period was calculated
+ */
+export type BaseReset =
+  | "cumulativeIncomeTaxBase"
+  | "cumulativeMinWageIncomeTaxBase"
+  | "transferredSSIBase";
+
 /**
  * Period result for a single calculation period
  */
@@ -153,6 +454,139 @@ export interface PeriodResult {
   cumulativeMinWageIncomeTaxBase: number;
   transferredSSIBase1: number;
   transferredSSIBase2: number;
+  workedDays?: number;
+  workedHours?: number;
+  overtime?: OvertimePay[];
+  attendance?: PeriodAttendance;
+  takeHomePay: number;
+  deductions?: AppliedDeduction[];
+  costBreakdown: CostBreakdown;
+  benefits?: PeriodBenefits;
+  incentive?: AppliedIncentive;
+  resets?: BaseReset[];
+}
+
+/**
+ * Attendance in a period: SSI days after absences, the days the wage was
+ * paid for, and the temporary incapacity allowance SGK pays for sick days
+ */
+export interface PeriodAttendance {
+  unpaidLeaveDays: number;
+  sickLeaveDays: number;
+  missingDays: number;
+  ssiDays: number;
+  paidDays: number;
+  sicknessAllowance: number;
+  sickPayOffset: boolean;
+}
+
+/**
+ * Overtime paid in a period
+ */
+export interface OvertimePay {
+  type: OvertimeType;
+  hours: number;
+  hourlyRate: number;
+  multiplier: number;
+  amount: number;
+}
+
+/**
+ * Deduction taken from a period's net wage, with the balance left to repay
+ */
+export interface AppliedDeduction {
+  name: string;
+  type: DeductionType | "PensionAutoEnrolment";
+  amount: number;
+  remainingBalance?: number;
+}
+
+/**
+ * Exempt portions of a single benefit payment
+ */
+export interface BenefitPortion {
+  name: string;
+  benefitType: BenefitType;
+  amount: number;
+  incomeTaxExempt: number;
+  ssiExempt: number;
+}
+
+/**
+ * Benefits paid in a period, split into exempt and taxable amounts
+ */
+export interface PeriodBenefits {
+  total: number;
+  incomeTaxExempt: number;
+  incomeTaxable: number;
+  ssiExempt: number;
+  ssiLiable: number;
+  items: BenefitPortion[];
+  /** Set when the registered exemption limits are extrapolated */
+  warnings?: string[];
+}
+
+/**
+ * Where the employer cost and the employee deductions come from.
+ * Employer cost = grossWage + employerSSIPremium + employerUnemploymentInsurance
+ * - sicknessAllowanceOffset;
+ * the SSI premium is after ssiDiscount, and the taxes are after the
+ * minimum wage exemptions. Exemptions the engine does not report are
+ * absent, and so is unemployment insurance it does not report for S4B
+ * and S4C employees; the SSI premiums then include it.
+ */
+export interface CostBreakdown {
+  grossWage: number;
+  employerSSIPremium: number;
+  employerUnemploymentInsurance?: number;
+  ssiDiscount: number;
+  sicknessAllowanceOffset: number;
+  employeeSSIPremium: number;
+  employeeUnemploymentInsurance?: number;
+  incomeTaxExemption?: number;
+  stampTaxExemption?: number;
+}
+
+/**
+ * Employer SSI discount from an incentive in a period
+ */
+export interface AppliedIncentive {
+  code: IncentiveCode;
+  savings: number;
+}
+
+/**
+ * Incentive savings in total and per incentive code
+ */
+export interface IncentiveSavings {
+  total: number;
+  byCode: Partial<Record<IncentiveCode, number>>;
+}
+
+/**
+ * Wage below the effective minimum wage in a period
+ */
+export interface MinWageViolation {
+  employee: string;
+  year: number;
+  month: number;
+  calculationType: "Gross" | "Net";
+  wagePeriod?: WagePeriod;
+  wage: number;
+  minWage: number;
+  shortfall: number;
+  lifted?: boolean;
+}
+
+/**
+ * Minimum wage compliance of the input wages
+ */
+export interface MinWageCompliance {
+  compliant: boolean;
+  violations: MinWageViolation[];
+  employeesBelowMinWage: string[];
+  autoLifted: boolean;
+  liftCost?: number;
 }
 
 /**
@@ -162,6 +596,7 @@ export interface CalculatePayrollResult {
   employee: string;
   totalCost: number;
   totalNet: number;
+  totalTakeHome: number;
   totalGross: number;
   periods: PeriodResult[];
 }
@@ -173,8 +608,12 @@ export interface BulkSummary {
   totalEmployees: number;
   totalYearlyCost: number;
   totalYearlyNet: number;
+  totalYearlyTakeHome: number;
   totalYearlyGross: number;
   averageMonthlyCost: number;
+  costBreakdown: CostBreakdown;
+  incentiveSavings: IncentiveSavings;
+  failedEmployees?: number;
 }
 
 /**
@@ -184,6 +623,7 @@ export interface BulkEmployeeResult {
   name: string;
   totalCost: number;
   totalNet: number;
+  totalTakeHome: number;
   totalGross: number;
 }
 
@@ -193,6 +633,23 @@ export interface BulkEmployeeResult {
 export interface CalculateBulkPayrollResult {
   summary: BulkSummary;
   employees: BulkEmployeeResult[];
+  failures?: PayrollaErrorDetails[];
+  compliance: MinWageCompliance;
+}
+
+/**
+ * Parameters effective in a single simulated month
+ */
+export interface EffectiveMonthParams {
+  year: number;
+  month: number;
+  minWage: number;
+  minWageNet: number;
+  ssiLowerLimit: number;
+  ssiUpperLimit: number;
+  stampTaxRatio: number;
+  incomeTaxBrackets: Array<{ limit: number; rate: number }>;
+  source: ParamsSource;
 }
 
 /**
@@ -202,6 +659,9 @@ export interface ScenarioApplied {
   salaryRaisePercent: number;
   effectiveMinWage: number;
   effectiveTaxBrackets: Array<{ limit: number; rate: number }>;
+  parameterSource: ParamsSource;
+  parameterWarnings?: string[];
+  monthlyParams: EffectiveMonthParams[];
 }
 
 /**
@@ -212,6 +672,31 @@ export interface SimulationSummary {
   totalYearlyNet: number;
   totalYearlyGross: number;
   costPerEmployee: number;
+  costBreakdown: CostBreakdown;
+  incentiveSavings: IncentiveSavings;
+  headcountByMonth: MonthlyHeadcount[];
+}
+
+/**
+ * Employees on payroll in a simulated month
+ */
+export interface MonthlyHeadcount {
+  year: number;
+  month: number;
+  headcount: number;
+  fullTimeEquivalent: number;
+  employerCost: number;
+}
+
+/**
+ * Wage used in a single simulated period
+ */
+export interface PeriodWage {
+  year: number;
+  month: number;
+  wage: number;
+  workedDays?: number;
+  workedHours?: number;
 }
 
 /**
@@ -219,11 +704,15 @@ export interface SimulationSummary {
  */
 export interface SimulationEmployeeResult {
   name: string;
+  planned?: boolean;
+  wagePeriod?: WagePeriod;
   originalWage: number;
   adjustedWage: number;
+  periodWages: PeriodWage[];
   yearlyCost: number;
   yearlyNet: number;
   yearlyGross: number;
+  minWageLiftCost?: number;
   periods: PeriodResult[];
 }
 
@@ -234,6 +723,7 @@ export interface SimulateBudgetResult {
   scenarioApplied: ScenarioApplied;
   summary: SimulationSummary;
   employees: SimulationEmployeeResult[];
+  compliance: MinWageCompliance;
 }
 
 /**
@@ -256,6 +746,162 @@ export interface CompareScenariosResult {
   mostExpensiveScenario: string;
 }
 
+/**
+ * Totals for a single projected month
+ */
+export interface ProjectionMonthTotal {
+  year: number;
+  month: number;
+  totalCost: number;
+  totalNet: number;
+  totalGross: number;
+}
+
+/**
+ * Totals and assumptions for a single projected year
+ */
+export interface ProjectionYearResult {
+  year: number;
+  parameterSource: ParamsSource;
+  raisePercent: number;
+  minWage: number;
+  incomeTaxBrackets: Array<{ limit: number; rate: number }>;
+  totalCost: number;
+  totalNet: number;
+  totalGross: number;
+  costChangePercent: number | null;
+  months: ProjectionMonthTotal[];
+  warnings?: string[];
+}
+
+/**
+ * Employee totals across the projection
+ */
+export interface ProjectionEmployeeResult {
+  name: string;
+  startWage: number;
+  endWage: number;
+  totalCost: number;
+}
+
+/**
+ * Result for multi-year budget projection
+ */
+export interface ProjectMultiYearResult {
+  totalCost: number;
+  totalNet: number;
+  totalGross: number;
+  years: ProjectionYearResult[];
+  employees: ProjectionEmployeeResult[];
+}
+
+/**
+ * Result for the wage solver
+ */
+export interface SolveWageResult {
+  wage: number;
+  calculationType: "Gross" | "Net";
+  target: WageTarget;
+  achieved: number;
+  converged: boolean;
+  iterations: number;
+  payroll: CalculatePayrollResult;
+}
+
+/**
+ * Raise allocated to a single employee
+ */
+export interface RaiseAllocation {
+  name: string;
+  calculationType: "Gross" | "Net";
+  currentWage: number;
+  newWage: number;
+  raiseAmount: number;
+  raisePercent: number;
+  costIncrease: number;
+  limitedBy?: "minWage" | "minPercent" | "cap";
+}
+
+/**
+ * Result for raise pool allocation
+ */
+export interface AllocateRaisePoolResult {
+  pool: number;
+  allocatedCost: number;
+  unallocated: number;
+  withinBudget: boolean;
+  strategy: "lowestPaidFirst" | "proportional";
+  minWageFloor: { gross: number; net: number };
+  baselineCost: number;
+  newCost: number;
+  iterations: number;
+  employees: RaiseAllocation[];
+  warnings?: string[];
+}
+
+/**
+ * Termination payment components
+ */
+export type TerminationComponentType =
+  | "finalMonthWage"
+  | "unusedLeave"
+  | "notice"
+  | "severance";
+
+/**
+ * A termination payment with its tax treatment
+ */
+export interface TerminationComponent {
+  type: TerminationComponentType;
+  gross: number;
+  incomeTax: number;
+  stampTax: number;
+  employeeSSI: number;
+  net: number;
+  employerCost: number;
+  taxTreatment: string;
+  days?: number;
+}
+
+/**
+ * Result for termination cost calculation
+ */
+export interface CalculateTerminationCostResult {
+  employee: string;
+  serviceDays: number;
+  noticeWeeks: number;
+  severanceCeiling: SeveranceCeiling;
+  components: TerminationComponent[];
+  totalGross: number;
+  totalNet: number;
+  totalEmployerCost: number;
+  terminationCost: number;
+  finalPayroll: PeriodResult;
+  warnings?: string[];
+}
+
+/**
+ * Invalid roster row; rows are numbered as in the spreadsheet, header first
+ */
+export interface RosterRowError {
+  row: number;
+  column?: string;
+  message: string;
+}
+
+/**
+ * Result for roster import
+ */
+export interface ImportRosterResult {
+  rosterId: string;
+  name?: string;
+  employeeCount: number;
+  columns: Partial<Record<RosterField, string>>;
+  ignoredColumns: string[];
+  skippedRows?: RosterRowError[];
+  preview: SimulationEmployeeInput[];
+}
+
 /**
  * Income tax bracket with description
  */
@@ -266,10 +912,16 @@ export interface TaxBracket {
 }
 
 /**
- * Result for default parameters
+ * Where a parameter set comes from: published legislation or carried
+ * forward from the latest known year
  */
-export interface DefaultParamsResult {
-  year: number;
+export type ParamsSource = "official" | "extrapolated";
+
+/**
+ * Payroll parameters effective from a given date
+ */
+export interface ParameterSet {
+  effectiveFrom: string;
   minWage: number;
   minWageNet: number;
   ssiLowerLimit: number;
@@ -278,13 +930,89 @@ export interface DefaultParamsResult {
   incomeTaxBrackets: TaxBracket[];
 }
 
+/**
+ * Result for default parameters
+ */
+export interface DefaultParamsResult extends ParameterSet {
+  year: number;
+  source: ParamsSource;
+  warnings?: string[];
+  midYearChanges?: ParameterSet[];
+}
+
 // ============ Constants ============
 
+/**
+ * Default 2023 Turkish payroll parameters (January-June)
+ */
+export const DEFAULT_PARAMS_2023: ParameterSet = {
+  effectiveFrom: "2023-01-01",
+  minWage: 10008,
+  minWageNet: 8506.8,
+  ssiLowerLimit: 10008,
+  ssiUpperLimit: 75060,
+  stampTaxRatio: 0.00759,
+  incomeTaxBrackets: [
+    { limit: 70000, rate: 0.15, description: "70,000 TL'ye kadar %15" },
+    { limit: 150000, rate: 0.2, description: "70,000-150,000 TL arası %20" },
+    { limit: 550000, rate: 0.27, description: "150,000-550,000 TL arası %27" },
+    {
+      limit: 1900000,
+      rate: 0.35,
+      description: "550,000-1,900,000 TL arası %35",
+    },
+    {
+      limit: Number.MAX_SAFE_INTEGER,
+      rate: 0.4,
+      description: "1,900,000 TL'den fazlası %40",
+    },
+  ],
+};
+
+/**
+ * 2023 mid-year minimum wage increase (July-December)
+ */
+export const DEFAULT_PARAMS_2023_JULY: ParameterSet = {
+  ...DEFAULT_PARAMS_2023,
+  effectiveFrom: "2023-07-01",
+  minWage: 13414.5,
+  minWageNet: 11402.32,
+  ssiLowerLimit: 13414.5,
+  ssiUpperLimit: 100608.9,
+};
+
+/**
+ * Default 2024 Turkish payroll parameters
+ */
+export const DEFAULT_PARAMS_2024: ParameterSet = {
+  effectiveFrom: "2024-01-01",
+  minWage: 20002.5,
+  minWageNet: 17002.12,
+  ssiLowerLimit: 20002.5,
+  ssiUpperLimit: 150018.9,
+  stampTaxRatio: 0.00759,
+  incomeTaxBrackets: [
+    { limit: 110000, rate: 0.15, description: "110,000 TL'ye kadar %15" },
+    { limit: 230000, rate: 0.2, description: "110,000-230,000 TL arası %20" },
+    { limit: 870000, rate: 0.27, description: "230,000-870,000 TL arası %27" },
+    {
+      limit: 3000000,
+      rate: 0.35,
+      description: "870,000-3,000,000 TL arası %35",
+    },
+    {
+      limit: Number.MAX_SAFE_INTEGER,
+      rate: 0.4,
+      description: "3,000,000 TL'den fazlası %40",
+    },
+  ],
+};
+
 /**
  * Default 2025 Turkish payroll parameters
  */
-export const DEFAULT_PARAMS_2025: DefaultParamsResult = {
-  year: 2025,
+export const DEFAULT_PARAMS_2025: ParameterSet = {
+  effectiveFrom: "2025-01-01",
   minWage: 26005.5,
   minWageNet: 22104.67,
   ssiLowerLimit: 26005.5,
@@ -310,3 +1038,194 @@ export const DEFAULT_PARAMS_2025: DefaultParamsResult = {
     },
   ],
 };
+
+/**
+ * Default 2026 Turkish payroll parameters
+ */
+export const DEFAULT_PARAMS_2026: ParameterSet = {
+  effectiveFrom: "2026-01-01",
+  minWage: 33030,
+  minWageNet: 28075.5,
+  ssiLowerLimit: 33030,
+  ssiUpperLimit: 247725,
+  stampTaxRatio: 0.00759,
+  incomeTaxBrackets: [
+    { limit: 190000, rate: 0.15, description: "190,000 TL'ye kadar %15" },
+    { limit: 400000, rate: 0.2, description: "190,000-400,000 TL arası %20" },
+    {
+      limit: 1500000,
+      rate: 0.27,
+      description: "400,000-1,500,000 TL arası %27",
+    },
+    {
+      limit: 5300000,
+      rate: 0.35,
+      description: "1,500,000-5,300,000 TL arası %35",
+    },
+    {
+      limit: Number.MAX_SAFE_INTEGER,
+      rate: 0.4,
+      description: "5,300,000 TL'den fazlası %40",
+    },
+  ],
+};
+
+/**
+ * SSI upper limit as a multiple of the gross minimum wage
+ */
+export const SSI_UPPER_LIMIT_MULTIPLIER = 7.5;
+
+/**
+ * Days in a full month for SSI, whatever the calendar length
+ */
+export const SSI_MONTH_DAYS = 30;
+
+/**
+ * Pay per overtime hour as a multiple of the hourly gross wage. Holiday
+ * work is paid an extra day's wage on top of the monthly wage, which
+ * already covers the holiday.
+ */
+export const OVERTIME_MULTIPLIERS: Record<OvertimeType, number> = {
+  Overtime: 1.5,
+  ExtraHours: 1.25,
+  Holiday: 1,
+};
+
+/**
+ * SGK temporary incapacity allowance for outpatient sick leave, as a share
+ * of the daily gross wage
+ */
+export const SICKNESS_ALLOWANCE_RATE = 2 / 3;
+
+/**
+ * Sick days at the start of a leave that SGK does not pay for
+ */
+export const SICKNESS_WAITING_DAYS = 2;
+
+/**
+ * Employee contribution under private pension auto-enrolment, as a share
+ * of the SSI base
+ */
+export const PENSION_AUTO_ENROLMENT_RATE = 0.03;
+
+/**
+ * Share of the net wage that garnishments may withhold
+ */
+export const GARNISHMENT_NET_SHARE = 0.25;
+
+/**
+ * Working hours that make up one SSI day for hourly and part-time work
+ */
+export const SSI_DAY_HOURS = 7.5;
+
+/**
+ * SSI premium rates for S4A employees (including unemployment insurance)
+ */
+export const SSI_RATES = {
+  employee: 0.14,
+  employeeUnemployment: 0.01,
+  employer: 0.2075,
+  employerUnemployment: 0.02,
+};
+
+/**
+ * Employer SSI discount per incentive code, as a share of the SSI base:
+ * 5510 is the 5-point discount, 6111 (youth and women hiring) covers the
+ * employer's whole SSI premium
+ */
+export const SSI_INCENTIVE_RATES: Record<IncentiveCode, number> = {
+  "5510": 0.05,
+  "6111": SSI_RATES.employer,
+};
+
+/**
+ * Severance pay ceiling (kıdem tazminatı tavanı) per year of service
+ */
+export interface SeveranceCeiling {
+  effectiveFrom: string;
+  amount: number;
+}
+
+/**
+ * Severance ceilings, ordered by effective date. The ceiling follows civil
+ * servant pay and changes every January and July.
+ */
+export const SEVERANCE_CEILING_REGISTRY: SeveranceCeiling[] = [
+  { effectiveFrom: "2023-01-01", amount: 19982.83 },
+  { effectiveFrom: "2023-07-01", amount: 23489.83 },
+  { effectiveFrom: "2024-01-01", amount: 35058.58 },
+  { effectiveFrom: "2024-07-01", amount: 41828.42 },
+  { effectiveFrom: "2025-01-01", amount: 46655.43 },
+  { effectiveFrom: "2025-07-01", amount: 53919.68 },
+  { effectiveFrom: "2026-01-01", amount: 64948.77 },
+];
+
+/**
+ * Daily income tax exemptions for meal cards and transport allowance
+ */
+export interface BenefitExemptionLimits {
+  effectiveFrom: string;
+  mealDaily: number;
+  transportDaily: number;
+}
+
+/**
+ * Benefit exemption limits, ordered by effective date. They change every
+ * January; later years reuse the latest entry and are flagged as
+ * extrapolated.
+ */
+export const BENEFIT_EXEMPTION_REGISTRY: BenefitExemptionLimits[] = [
+  { effectiveFrom: "2024-01-01", mealDaily: 170, transportDaily: 88 },
+  { effectiveFrom: "2025-01-01", mealDaily: 240, transportDaily: 158 },
+  { effectiveFrom: "2026-01-01", mealDaily: 300, transportDaily: 195 },
+];
+
+/**
+ * Meal benefits are SSI exempt up to this share of the daily gross minimum
+ * wage per day worked
+ */
+export const MEAL_SSI_EXEMPTION_RATE = 0.2365;
+
+/**
+ * Private health premiums are income tax exempt up to this share of the
+ * gross wage, and never above the minimum wage
+ */
+export const HEALTH_INCOME_TAX_EXEMPTION_RATE = 0.15;
+
+/**
+ * Private health and pension contributions share an SSI exemption of this
+ * share of the gross minimum wage
+ */
+export const HEALTH_PENSION_SSI_EXEMPTION_RATE = 0.3;
+
+/**
+ * Header names recognised per roster field, compared without case, spaces,
+ * punctuation or Turkish characters
+ */
+export const ROSTER_COLUMN_ALIASES: Record<RosterField, string[]> = {
+  name: ["name", "employee", "employeename", "fullname", "adsoyad", "adisoyadi", "isim", "calisan", "personel"],
+  wage: ["wage", "salary", "grosswage", "maas", "ucret", "brutmaas", "brutucret"],
+  calculationType: ["calculationtype", "wagetype", "hesaplamatipi", "ucrettipi"],
+  ssiType: ["ssitype", "sgktipi", "sigortatipi"],
+  wagePeriod: ["wageperiod", "payperiod", "ucretperiyodu"],
+  workedDays: ["workeddays", "days", "gun", "calisilangun"],
+  workedHours: ["workedhours", "hours", "saat", "calisilansaat"],
+  startDate: ["startdate", "hiredate", "giristarihi", "isegiristarihi"],
+  endDate: ["enddate", "terminationdate", "cikistarihi", "istencikistarihi"],
+  cumulativeIncomeTaxBase: ["cumulativeincometaxbase", "kumulatifvergimatrahi"],
+  cumulativeMinWageIncomeTaxBase: ["cumulativeminwageincometaxbase"],
+  transferredSSIBase1: ["transferredssibase1", "devredensgkmatrahi1"],
+  transferredSSIBase2: ["transferredssibase2", "devredensgkmatrahi2"],
+};
+
+/**
+ * Registry of known parameter sets, ordered by effective date.
+ * Add a new entry whenever legislation changes a value, including mid-year.
+ */
+export const PARAMETER_REGISTRY: ParameterSet[] = [
+  DEFAULT_PARAMS_2023,
+  DEFAULT_PARAMS_2023_JULY,
+  DEFAULT_PARAMS_2024,
+  DEFAULT_PARAMS_2025,
+  DEFAULT_PARAMS_2026,
+];